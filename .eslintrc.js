@@ -5,6 +5,7 @@ module.exports = {
         sourceType: 'module', // Allows for the use of imports
         project: [
           './tsconfig.json',
+          './test/tsconfig.json',
           './examples/pcf8574/tsconfig.json',
           './examples/pcf8575/tsconfig.json',
           './examples/mcp23017/tsconfig.json',
@@ -119,8 +119,8 @@ const example = async () => {
   });
 
   // Then enable interrupt detection on BCM pin 18 (which is GPIO.1)
-  // Alternatively you can use for example an interval for manually poll every 250ms
-  // setInterval(chip.doPoll.bind(chip), 250);
+  // Alternatively you can poll manually, for example every 250ms
+  // chip.startPolling({ interval: 250 });
   await chip.enableInterrupt(18);
 
   // It has been observed that when a chip has been configured for interrupts, a condition exists where an interrupt can be missed
@@ -137,8 +137,8 @@ const example = async () : Promise<void> => {
   });
 
   // Then enable interrupt detection for PortA on BCM pin 18 (which is GPIO.1)
-  // Alternatively you can use for example an interval for manually poll every 250ms
-  // setInterval(chip.doPoll.bind(chip), 250);
+  // Alternatively you can poll manually, for example every 250ms
+  // chip.startPolling({ interval: 250 });
   await chipPortA.enableInterrupt(18);
 
   // It has been observed that when a chip has been configured for interrupts, a condition exists where an interrupt can be missed
@@ -73,8 +73,8 @@ const example = async () => {
   });
 
   // Then enable interrupt detection on BCM pin 17 (which is GPIO.0)
-  // Alternatively you can use for example an interval for manually poll every 250ms
-  // setInterval(chip.doPoll.bind(chip), 250);
+  // Alternatively you can poll manually, for example every 250ms
+  // chip.startPolling({ interval: 250 });
   await chip.enableInterrupt(17);
 };
 
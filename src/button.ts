@@ -0,0 +1,322 @@
+/*
+ * Node.js I2C io expanders - Button gestures
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * Recognition of button gestures (click, double click, long press, repeat) on an input pin of an expander.
+ */
+import { EventEmitter } from 'events';
+import { performance } from 'perf_hooks';
+
+import { IOExpander } from './ioExpander';
+
+/**
+ * Namespace for types for Button
+ */
+export namespace Button {
+  /**
+   * Options for a Button.
+   * All times are in milliseconds.
+   */
+  export interface Options {
+    /**
+     * The value of the pin while the button is pressed. Defaults to true.
+     * The value respects the inverted flag of the pin, so an active low button may also be defined as inverted input.
+     */
+    pressedValue?: boolean;
+
+    /**
+     * Time the button has to be held for a `longPress` event. Defaults to 1000.
+     */
+    longPressTime?: number;
+
+    /**
+     * Maximum time between the release of a click and the next press for a `doubleClick` event. Defaults to 300.
+     * 0 disables double clicks, so every click is emitted instantly.
+     */
+    doubleClickTime?: number;
+
+    /**
+     * Interval of the `repeat` events while the button is held after a long press. Defaults to 200.
+     * 0 disables repeat events.
+     */
+    repeatInterval?: number;
+  }
+}
+
+/**
+ * Interface for events of Button
+ * All listeners get the pin of the button as last argument, so one listener may handle several buttons.
+ */
+export interface Button<PinNumber extends IOExpander.PinNumber8 | IOExpander.PinNumber16> {
+  /**
+   * Emitted when the button is pressed.
+   * @param event 'press'
+   * @param listener Eventlistener with the pin as first argument.
+   */
+  on (event: 'press', listener: (pin: PinNumber) => void): this;
+
+  /**
+   * Emitted when the button is released.
+   * @param event 'release'
+   * @param listener Eventlistener with the time in milliseconds the button was held as first argument and the pin as second argument.
+   */
+  on (event: 'release', listener: (duration: number, pin: PinNumber) => void): this;
+
+  /**
+   * Emitted when the button is clicked once.
+   * If double clicks are enabled, this is emitted when no second click followed within the double click time.
+   * @param event 'click'
+   * @param listener Eventlistener with the pin as first argument.
+   */
+  on (event: 'click' | 'doubleClick', listener: (pin: PinNumber) => void): this;
+
+  /**
+   * Emitted when the button has been held for the long press time.
+   * A long press does not emit a click.
+   * @param event 'longPress'
+   * @param listener Eventlistener with the pin as first argument.
+   */
+  on (event: 'longPress', listener: (pin: PinNumber) => void): this;
+
+  /**
+   * Emitted in the repeat interval while the button is held after a long press.
+   * @param event 'repeat'
+   * @param listener Eventlistener with the number of the repetition (starting at 1) as first argument and the pin as second argument.
+   */
+  on (event: 'repeat', listener: (count: number, pin: PinNumber) => void): this;
+}
+
+/**
+ * Class to recognize gestures of a button connected to an input pin of an expander.
+ *
+ * The pin must be defined as input using `inputPin()` and the expander must detect changes of its inputs
+ * itself, using an interrupt or polling. Use the `debounceMs` option of `inputPin()` to debounce the button.
+ * The times are measured from the timestamps of the input events, so the delay of the processing does not matter.
+ * The button stops when it no longer gets the input events of the pin, e.g. after the expander was closed.
+ */
+export class Button<PinNumber extends IOExpander.PinNumber8 | IOExpander.PinNumber16> extends EventEmitter {
+
+  /** The expander with the input pin. */
+  private _expander: IOExpander<PinNumber>;
+
+  /** The input pin. */
+  private _pin: PinNumber;
+
+  /** The value of the pin while the button is pressed. */
+  private _pressedValue: boolean;
+
+  /** Time for a long press. */
+  private _longPressTime: number;
+
+  /** Maximum time between two clicks of a double click. */
+  private _doubleClickTime: number;
+
+  /** Interval of repeat events. */
+  private _repeatInterval: number;
+
+  /** Indicator if the button is pressed. */
+  private _pressed: boolean = false;
+
+  /** Time of the last press, in milliseconds from `performance.now()`. */
+  private _pressTime: number = 0;
+
+  /** Indicator if the current press is a long press. */
+  private _longPressed: boolean = false;
+
+  /** Count of repeat events of the current press. */
+  private _repeatCount: number = 0;
+
+  /** Indicator if a click is waiting for a second click. */
+  private _clickPending: boolean = false;
+
+  /** Timer for the long press and repeat events. */
+  private _holdTimer: NodeJS.Timeout | null = null;
+
+  /** Timer to emit a pending click. */
+  private _clickTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Constructor for a new Button.
+   * The button starts watching the pin immediately. The button is assumed to be released at this time.
+   * @param {IOExpander} expander The expander with the input pin.
+   * @param {PinNumber}  pin      The input pin.
+   * @param {Options}    options  (optional) Options for the button.
+   */
+  constructor (expander: IOExpander<PinNumber>, pin: PinNumber, options?: Button.Options) {
+    super();
+
+    const opts: Button.Options = options || {};
+    const times = [opts.longPressTime, opts.doubleClickTime, opts.repeatInterval];
+    if (times.some((time) => typeof (time) !== 'undefined' && (typeof (time) !== 'number' || !(time >= 0)))) {
+      throw new Error('Button time out of range.');
+    }
+
+    // Bind the _handleInput method strictly to this instance.
+    this._handleInput = this._handleInput.bind(this);
+
+    this._expander = expander;
+    this._pin = pin;
+    this._pressedValue = (typeof (opts.pressedValue) === 'boolean') ? opts.pressedValue : true;
+    this._longPressTime = (typeof (opts.longPressTime) === 'number') ? opts.longPressTime : 1000;
+    this._doubleClickTime = (typeof (opts.doubleClickTime) === 'number') ? opts.doubleClickTime : 300;
+    this._repeatInterval = (typeof (opts.repeatInterval) === 'number') ? opts.repeatInterval : 200;
+
+    this._expander.on(this._inputEvent(), this._handleInput);
+  }
+
+  /**
+   * Returns if the button is pressed.
+   * @return {boolean} `true` if the button is pressed.
+   */
+  public isPressed (): boolean {
+    return this._pressed;
+  }
+
+  /**
+   * Stop watching the pin and remove all listeners.
+   * A pending click is discarded.
+   */
+  public close (): void {
+    this._expander.removeListener(this._inputEvent(), this._handleInput);
+    this._stop();
+    this.removeAllListeners();
+  }
+
+  /**
+   * Internal function to get the name of the input event of the pin.
+   */
+  private _inputEvent (): `input:${PinNumber}` {
+    return `input:${this._pin}`;
+  }
+
+  /**
+   * Internal function to check if the button still gets the input events of the pin.
+   * The expander removes all listeners when it is closed.
+   */
+  private _isListening (): boolean {
+    return this._expander.listeners(this._inputEvent()).indexOf(this._handleInput) >= 0;
+  }
+
+  /**
+   * Internal function to reset the button to the released state without emitting events.
+   */
+  private _stop (): void {
+    this._clearTimers();
+    this._pressed = false;
+    this._clickPending = false;
+  }
+
+  /**
+   * Internal function to handle an input event of the pin.
+   */
+  private _handleInput (data: IOExpander.InputData<PinNumber>): void {
+    const pressed = (data.value === this._pressedValue);
+    if (pressed === this._pressed) {
+      return;
+    }
+    this._pressed = pressed;
+
+    if (pressed) {
+      this._pressTime = data.timestamp;
+      this._longPressed = false;
+      this._repeatCount = 0;
+      // A pending click waits for the release of this press to become a double click.
+      this._clearClickTimer();
+      // The long press time starts at the read of the press, not at the processing of the event.
+      const delay = Math.max(0, this._longPressTime - (performance.now() - data.timestamp));
+      this._holdTimer = setTimeout(() => this._handleLongPress(), delay);
+      this.emit('press', this._pin);
+      return;
+    }
+
+    if (this._holdTimer !== null) {
+      clearTimeout(this._holdTimer);
+      this._holdTimer = null;
+    }
+    this.emit('release', data.timestamp - this._pressTime, this._pin);
+
+    // A long press is no click and ends a pending click.
+    if (this._longPressed) {
+      this._emitPendingClick();
+      return;
+    }
+
+    if (this._clickPending) {
+      this._clearClickTimer();
+      this._clickPending = false;
+      this.emit('doubleClick', this._pin);
+    } else if (this._doubleClickTime > 0) {
+      this._clickPending = true;
+      this._clickTimer = setTimeout(() => this._emitPendingClick(), this._doubleClickTime);
+    } else {
+      this.emit('click', this._pin);
+    }
+  }
+
+  /**
+   * Internal function to handle the expiry of the long press time.
+   */
+  private _handleLongPress (): void {
+    if (!this._isListening()) {
+      this._stop();
+      return;
+    }
+    this._longPressed = true;
+    this._emitPendingClick();
+    this.emit('longPress', this._pin);
+    this._scheduleRepeat();
+  }
+
+  /**
+   * Internal function to schedule the next repeat event while the button is held.
+   */
+  private _scheduleRepeat (): void {
+    if (this._repeatInterval <= 0) {
+      this._holdTimer = null;
+      return;
+    }
+    this._holdTimer = setTimeout(() => {
+      if (!this._isListening()) {
+        // The release can not be detected anymore.
+        this._stop();
+        return;
+      }
+      this._repeatCount++;
+      this._scheduleRepeat();
+      this.emit('repeat', this._repeatCount, this._pin);
+    }, this._repeatInterval);
+  }
+
+  /**
+   * Internal function to emit a click waiting for a second click.
+   */
+  private _emitPendingClick (): void {
+    this._clearClickTimer();
+    if (this._clickPending) {
+      this._clickPending = false;
+      this.emit('click', this._pin);
+    }
+  }
+
+  /**
+   * Internal function to clear the timer of a pending click.
+   */
+  private _clearClickTimer (): void {
+    if (this._clickTimer !== null) {
+      clearTimeout(this._clickTimer);
+      this._clickTimer = null;
+    }
+  }
+
+  /**
+   * Internal function to clear all timers.
+   */
+  private _clearTimers (): void {
+    this._clearClickTimer();
+    if (this._holdTimer !== null) {
+      clearTimeout(this._holdTimer);
+      this._holdTimer = null;
+    }
+  }
+}
@@ -0,0 +1,104 @@
+/*
+ * Node.js I2C io expanders - I2C bus arbiter
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * Serialises all transactions on an I2C bus, ordered by priority.
+ */
+
+/**
+ * Interface to describe a pending operation in an `I2CArbiter`.
+ */
+interface PendingOperation<T = any> {
+  operation: () => Promise<T>;
+  priority: number;
+  resolve: (value: T) => void;
+  reject: (reason?: any) => void;
+}
+
+/**
+ * Arbiter for the transactions on one I2C bus.
+ *
+ * Each IOExpander only serialises the operations on its own IC. To serialise all transactions on a bus,
+ * pass the same arbiter to all expanders on this bus using the `arbiter` option and run the transactions
+ * of other devices on the bus (e.g. an ADC) using `run()`.
+ *
+ * Only one operation runs at a time. Pending operations with a higher priority run first,
+ * operations with the same priority run in the order they were requested.
+ */
+export class I2CArbiter {
+
+  /** Priority of normal operations. */
+  public static readonly PRIORITY_DEFAULT = 0;
+
+  /** Priority of the operations of an interrupt triggered poll. */
+  public static readonly PRIORITY_INTERRUPT = 10;
+
+  /** Pending operations, ordered by priority. */
+  private _pending: PendingOperation[] = [];
+
+  /** Indicator that an operation is running. */
+  private _running: boolean = false;
+
+  /**
+   * Run an operation exclusively on the bus.
+   * The operation is started when all running operations and all pending operations with the same or a higher priority are done.
+   * @param  {Function} operation Function which starts the operation and returns a Promise for its completion.
+   * @param  {number}   priority  (optional) Priority of the operation. Defaults to `PRIORITY_DEFAULT`.
+   * @return {Promise}  Promise which gets resolved (or rejected) when the operation is done.
+   */
+  public run<T = void> (operation: () => Promise<T>, priority?: number): Promise<T> {
+    const operationPriority = (typeof (priority) === 'number') ? priority : I2CArbiter.PRIORITY_DEFAULT;
+
+    return new Promise((resolve, reject) => {
+      // Insert the operation behind all pending operations with the same or a higher priority.
+      let index = this._pending.findIndex((pending) => pending.priority < operationPriority);
+      if (index < 0) {
+        index = this._pending.length;
+      }
+      this._pending.splice(index, 0, {
+        operation,
+        priority: operationPriority,
+        resolve,
+        reject
+      });
+      this._next();
+    });
+  }
+
+  /**
+   * Returns if no operation is running or pending.
+   * @returns `true` if the bus is idle.
+   */
+  public isIdle (): boolean {
+    return !this._running && this._pending.length === 0;
+  }
+
+  /**
+   * Start the next pending operation if no operation is running.
+   */
+  private _next (): void {
+    if (this._running) {
+      return;
+    }
+
+    const item = this._pending.shift();
+    if (!item) {
+      return;
+    }
+
+    this._running = true;
+    let promise: Promise<any>;
+    try {
+      promise = item.operation();
+    } catch (err) {
+      promise = Promise.reject(err);
+    }
+    promise
+      .then(item.resolve, item.reject)
+      .then(() => {
+        this._running = false;
+        this._next();
+      });
+  }
+}
@@ -1,6 +1,34 @@
 export type { IOExpander } from './ioExpander';
+export { Button } from './button';
 export { CAT9555 } from './cat9555';
+export { I2CArbiter } from './i2c-arbiter';
+export { EventInterruptSource, ExpanderPinInterruptSource, GpiodInterruptSource } from './interrupt-sources';
 export { MCP23017, MCP23017A, MCP23017B } from './mcp23017';
+export { MCP23018, MCP23018A, MCP23018B } from './mcp23018';
 export { MCP23008 } from './mcp23008';
+export { MCP23S17 } from './mcp23s17';
+export { MCP23S08 } from './mcp23s08';
+export { PCA9535, PCA9555, TCA9555 } from './pca9555';
+export { PCA9554 } from './pca9554';
+export { PCA9557 } from './pca9557';
+export { PCAL6416A, PCAL9555A } from './pcal9555a';
 export { PCF8574 } from './pcf8574';
-export { PCF8575 } from './pcf8575';
\ No newline at end of file
+export { PCF8575 } from './pcf8575';
+export { TCA6408 } from './tca6408';
+export { TCA6416 } from './tca6416';
+export { I2CTransport, SpiTransport } from './transports';
+export {
+  SimulatedI2CBus,
+  SimulatedI2CDevice,
+  SimulatedChip,
+  SimulatedCAT9555,
+  SimulatedMCP23008,
+  SimulatedMCP23017,
+  SimulatedMCP23018,
+  SimulatedPCA9554,
+  SimulatedPCA9557,
+  SimulatedPCAL9555A,
+  SimulatedPCF8574,
+  SimulatedPCF8575,
+  SimulatedSpiDevice
+} from './simulator';
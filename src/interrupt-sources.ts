@@ -0,0 +1,329 @@
+/*
+ * Node.js I2C io expanders - Interrupt sources
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * Built-in interrupt sources which can be passed to `IOExpander.enableInterrupt()`.
+ */
+import { ChildProcess, spawn } from 'child_process';
+import { EventEmitter } from 'events';
+
+import { IOExpander } from './ioExpander';
+
+/**
+ * Interrupt source which is triggered manually or by an event of any EventEmitter.
+ *
+ * Useful to forward interrupts detected by other means (e.g. another GPIO library) and for tests.
+ */
+export class EventInterruptSource implements IOExpander.InterruptSource {
+
+  /** The registered callbacks. */
+  private _callbacks: IOExpander.InterruptCallback[] = [];
+
+  /** The emitter whose events trigger interrupts, or null if there is none. */
+  private _emitter: EventEmitter | null;
+
+  /** The name of the event which triggers interrupts. */
+  private _eventName: string | symbol;
+
+  /**
+   * Constructor for a new EventInterruptSource.
+   * @param {EventEmitter}  emitter   (optional) Emitter whose events trigger an interrupt.
+   * @param {string|symbol} eventName (optional) Name of the event which triggers an interrupt. Defaults to 'interrupt'.
+   */
+  constructor (emitter?: EventEmitter, eventName?: string | symbol) {
+    // Bind the trigger method strictly to this instance.
+    this.trigger = this.trigger.bind(this);
+
+    this._emitter = emitter || null;
+    this._eventName = eventName || 'interrupt';
+    if (this._emitter) {
+      this._emitter.on(this._eventName, this.trigger);
+    }
+  }
+
+  /**
+   * Trigger an interrupt and call all registered callbacks.
+   */
+  public trigger (): void {
+    // Copy the array to allow callbacks to unwatch themselves.
+    for (const callback of this._callbacks.slice()) {
+      callback();
+    }
+  }
+
+  public watch (callback: IOExpander.InterruptCallback): void {
+    this._callbacks.push(callback);
+  }
+
+  public unwatch (callback: IOExpander.InterruptCallback): void {
+    const index = this._callbacks.indexOf(callback);
+    if (index >= 0) {
+      this._callbacks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Stop listening to the events of the emitter.
+   */
+  public close (): void {
+    if (this._emitter) {
+      this._emitter.removeListener(this._eventName, this.trigger);
+      this._emitter = null;
+    }
+  }
+}
+
+/**
+ * Interrupt source which is triggered by an input pin of another IOExpander.
+ *
+ * This allows to connect the interrupt line of an expander IC to an input pin of another expander IC.
+ * The other expander must detect changes of its input itself, using an interrupt or polling.
+ */
+export class ExpanderPinInterruptSource<PinNumber extends IOExpander.PinNumber8 | IOExpander.PinNumber16> implements IOExpander.InterruptSource {
+
+  /** The registered callbacks. */
+  private _callbacks: IOExpander.InterruptCallback[] = [];
+
+  /** The expander with the input pin. */
+  private _expander: IOExpander<PinNumber>;
+
+  /** The input pin. */
+  private _pin: PinNumber;
+
+  /** The value of the pin which signals an interrupt. */
+  private _activeValue: boolean;
+
+  /**
+   * Constructor for a new ExpanderPinInterruptSource.
+   * @param {IOExpander} expander    The expander with the input pin. The pin must be defined as input using `inputPin()`.
+   * @param {PinNumber}  pin         The input pin.
+   * @param {boolean}    activeValue (optional) The value of the pin which signals an interrupt. Defaults to false (active low).
+   */
+  constructor (expander: IOExpander<PinNumber>, pin: PinNumber, activeValue?: boolean) {
+    // Bind the _handleInput method strictly to this instance.
+    this._handleInput = this._handleInput.bind(this);
+
+    this._expander = expander;
+    this._pin = pin;
+    this._activeValue = !!activeValue;
+  }
+
+  public watch (callback: IOExpander.InterruptCallback): void {
+    if (this._callbacks.length === 0) {
+      this._expander.on('input', this._handleInput);
+    }
+    this._callbacks.push(callback);
+  }
+
+  public unwatch (callback: IOExpander.InterruptCallback): void {
+    const index = this._callbacks.indexOf(callback);
+    if (index < 0) {
+      return;
+    }
+    this._callbacks.splice(index, 1);
+    if (this._callbacks.length === 0) {
+      this._expander.removeListener('input', this._handleInput);
+    }
+  }
+
+  /**
+   * Internal function to handle an input event of the expander.
+   */
+  private _handleInput (data: IOExpander.InputData<PinNumber>): void {
+    if (data.pin !== this._pin || data.value !== this._activeValue) {
+      return;
+    }
+    // Copy the array to allow callbacks to unwatch themselves.
+    for (const callback of this._callbacks.slice()) {
+      callback();
+    }
+  }
+}
+
+/**
+ * Namespace for types for GpiodInterruptSource
+ */
+export namespace GpiodInterruptSource {
+  /**
+   * Options for a GpiodInterruptSource.
+   */
+  export interface Options {
+    /**
+     * The GPIO chip, e.g. 'gpiochip0' or 0. Defaults to 'gpiochip0'.
+     */
+    chip?: string | number;
+
+    /**
+     * The edge to detect. Defaults to 'falling'.
+     */
+    edge?: 'falling' | 'rising' | 'both';
+
+    /**
+     * Bias to apply to the line, e.g. 'pull-up'. By default the bias is not changed.
+     */
+    bias?: 'as-is' | 'disabled' | 'pull-up' | 'pull-down';
+
+    /**
+     * The command to run. Defaults to 'gpiomon'.
+     */
+    command?: string;
+
+    /**
+     * Major version of the libgpiod tools, which defines the command line syntax. Defaults to 1.
+     */
+    libgpiodVersion?: 1 | 2;
+  }
+}
+
+/**
+ * Interface for events of GpiodInterruptSource
+ */
+export interface GpiodInterruptSource {
+  /**
+   * Emit an error event.
+   * @param event 'error'
+   * @param err The error.
+   */
+  emit (event: 'error', err: Error): boolean;
+
+  /**
+   * Emitted when the monitor process could not be started or exited unexpectedly.
+   * @param event 'error'
+   * @param listener Eventlistener with the error as first argument.
+   */
+  on (event: 'error', listener: (err: Error) => void): this;
+}
+
+/**
+ * Interrupt source using a line of the Linux GPIO character device (/dev/gpiochipN).
+ *
+ * The deprecated sysfs GPIO interface used by onoff is not available on newer kernels.
+ * This source requests the line from the character device using the `gpiomon` tool of libgpiod,
+ * which must be installed (e.g. `apt install gpiod`). The tool is started when the first callback
+ * is registered and stopped when the last callback is removed.
+ * Line requests need `ioctl()` calls, which Node.js can only do with a native addon. Running gpiomon
+ * uses the line requests of libgpiod without building a native addon for each platform.
+ */
+export class GpiodInterruptSource extends EventEmitter implements IOExpander.InterruptSource {
+
+  /** The registered callbacks. */
+  private _callbacks: IOExpander.InterruptCallback[] = [];
+
+  /** The line offset on the GPIO chip. */
+  private _line: number;
+
+  /** The options. */
+  private _options: GpiodInterruptSource.Options;
+
+  /** The running gpiomon process, or null if not running. */
+  private _process: ChildProcess | null = null;
+
+  /**
+   * Constructor for a new GpiodInterruptSource.
+   * @param {number}  line    The line offset on the GPIO chip. On a Raspberry Pi this is the BCM number.
+   * @param {Options} options (optional) Options for the line request.
+   */
+  constructor (line: number, options?: GpiodInterruptSource.Options) {
+    super();
+    if (!Number.isInteger(line) || line < 0) {
+      throw new Error('Line out of range.');
+    }
+    this._line = line;
+    this._options = options || {};
+  }
+
+  public watch (callback: IOExpander.InterruptCallback): void {
+    this._callbacks.push(callback);
+    if (this._process === null) {
+      this._start();
+    }
+  }
+
+  public unwatch (callback: IOExpander.InterruptCallback): void {
+    const index = this._callbacks.indexOf(callback);
+    if (index < 0) {
+      return;
+    }
+    this._callbacks.splice(index, 1);
+    if (this._callbacks.length === 0) {
+      this._stop();
+    }
+  }
+
+  /**
+   * Returns the arguments for gpiomon.
+   */
+  private _getArgs (): string[] {
+    const chip = typeof (this._options.chip) === 'number' ? `gpiochip${this._options.chip}` : (this._options.chip || 'gpiochip0');
+    const edge = this._options.edge || 'falling';
+    const args: string[] = [];
+
+    if (this._options.libgpiodVersion === 2) {
+      args.push('--chip', chip, '--edges', edge);
+      if (this._options.bias) {
+        args.push('--bias', this._options.bias);
+      }
+      args.push(`${this._line}`);
+    } else {
+      if (edge !== 'both') {
+        args.push(edge === 'falling' ? '--falling-edge' : '--rising-edge');
+      }
+      if (this._options.bias) {
+        args.push(`--bias=${this._options.bias}`);
+      }
+      args.push(chip, `${this._line}`);
+    }
+    return args;
+  }
+
+  /**
+   * Start the gpiomon process.
+   */
+  private _start (): void {
+    const proc = spawn(this._options.command || 'gpiomon', this._getArgs(), { stdio: ['ignore', 'pipe', 'ignore'] });
+    this._process = proc;
+
+    // Each line printed by gpiomon is one event.
+    let buffered = '';
+    proc.stdout.setEncoding('utf8');
+    proc.stdout.on('data', (chunk: string) => {
+      const lines = (buffered + chunk).split('\n');
+      buffered = lines.pop();
+      for (const line of lines) {
+        if (line.trim() !== '' && this._process === proc) {
+          // Copy the array to allow callbacks to unwatch themselves.
+          for (const callback of this._callbacks.slice()) {
+            callback();
+          }
+        }
+      }
+    });
+
+    proc.on('error', (err) => {
+      if (this._process === proc) {
+        this._process = null;
+        this.emit('error', err);
+      }
+    });
+
+    proc.on('close', (code, signal) => {
+      if (this._process === proc) {
+        this._process = null;
+        this.emit('error', new Error(`gpiomon exited unexpectedly (code ${code}, signal ${signal}).`));
+      }
+    });
+  }
+
+  /**
+   * Stop the gpiomon process.
+   */
+  private _stop (): void {
+    const proc = this._process;
+    if (proc === null) {
+      return;
+    }
+    this._process = null;
+    proc.kill();
+  }
+}
@@ -8,9 +8,13 @@
  */
 
 import { EventEmitter } from 'events';
+import { performance } from 'perf_hooks';
 import { I2CBus } from 'i2c-bus';
 import { Gpio } from 'onoff';
+
+import { I2CArbiter } from './i2c-arbiter';
 import { PromiseQueue } from './promise-queue';
+import { I2CTransport } from './transports';
 
 /**
  * Namespace for the common class IOExpander.
@@ -51,6 +55,130 @@ export namespace IOExpander {
      * @type {boolean}
      */
     value: boolean;
+
+    /**
+     * Time of the I2C read which detected the change, in milliseconds from `performance.now()`.
+     * This is a high-resolution monotonic time shared by all instances, so events of different ICs can be ordered.
+     * @type {number}
+     */
+    timestamp: number;
+
+    /**
+     * Time of the interrupt which triggered the read, in milliseconds from `performance.now()`.
+     * Only set if the change was detected by an interrupt.
+     * @type {number}
+     */
+    interruptTimestamp?: number;
+  }
+
+  /**
+   * Data of a 'change' event
+   * @type {Object}
+   */
+  export type ChangeData = {
+    /**
+     * State of all pins before the poll, respecting inverted pins
+     * @type {number}
+     */
+    previousState: number;
+
+    /**
+     * State of all pins after the poll, respecting inverted pins
+     * @type {number}
+     */
+    state: number;
+
+    /**
+     * Bitmask of the input pins which have changed
+     * @type {number}
+     */
+    changed: number;
+
+    /**
+     * Time of the I2C read which detected the changes, in milliseconds from `performance.now()`.
+     * @type {number}
+     */
+    timestamp: number;
+
+    /**
+     * Time of the interrupt which triggered the read, in milliseconds from `performance.now()`.
+     * Only set if the changes were detected by an interrupt.
+     * @type {number}
+     */
+    interruptTimestamp?: number;
+  }
+
+  /**
+   * Options for an input pin.
+   */
+  export interface InputPinOptions {
+    /**
+     * Enable (true) or disable (false) the internal pull-up resistor of the pin.
+     * If not set, the pull-up is not changed. Only supported by chips with configurable pull-ups (MCP23008/MCP23017).
+     */
+    pullUp?: boolean;
+
+    /**
+     * The interrupt mode of the pin. If not set, the interrupt mode is not changed.
+     * Modes other than 'change' are only supported by chips with interrupt-on-compare (MCP23008/MCP23017).
+     */
+    interruptMode?: InterruptMode;
+
+    /**
+     * Debounce time of the pin in milliseconds. A change is only processed if the pin was stable for this time.
+     * 0 disables debouncing. If not set, the debounce time is not changed.
+     */
+    debounceMs?: number;
+
+    /**
+     * Count of the last changes of the pin to keep in the history, see `getPinHistory()`.
+     * 0 disables the history. If not set, the history size is not changed.
+     */
+    historySize?: number;
+  }
+
+  /**
+   * Edge of an input pin to watch by `watch()`.
+   * 'rising' = the value changed to true, 'falling' = the value changed to false, 'both' = every change.
+   * The value respects the inverted flag of the pin, like the value of input events.
+   */
+  export type WatchEdge = 'rising' | 'falling' | 'both';
+
+  /**
+   * Callback for `watch()`, called with the new value and the number of the pin.
+   */
+  export type WatchCallback<T extends IOExpander.PinNumber8 | IOExpander.PinNumber16> = (value: boolean, pin: T) => void;
+
+  /**
+   * Interrupt mode of an input pin.
+   * 'change' = interrupt on every change of the pin (default),
+   * 'compare-to-high' = interrupt while the pin value is not high (true),
+   * 'compare-to-low' = interrupt while the pin value is not low (false).
+   * The compared value respects the inverted flag of the pin, like the value of input events.
+   */
+  export type InterruptMode = 'change' | 'compare-to-high' | 'compare-to-low';
+
+  /**
+   * Callback to be called by an interrupt source when an interrupt occurred.
+   */
+  export type InterruptCallback = () => void;
+
+  /**
+   * Source of interrupts which can be passed to `enableInterrupt()`.
+   * See `interrupt-sources.ts` for the built-in implementations.
+   */
+  export interface InterruptSource {
+    /**
+     * Start calling the given callback whenever an interrupt occurs.
+     * @param {InterruptCallback} callback The callback.
+     */
+    watch (callback: InterruptCallback): void;
+
+    /**
+     * Stop calling the given callback.
+     * @param {InterruptCallback} callback The callback which was passed to `watch()`.
+     */
+    unwatch (callback: InterruptCallback): void;
   }
 
   /**
@@ -62,11 +190,279 @@ export namespace IOExpander {
      */
     gpio: Gpio;
 
+    /**
+     * The edge the GPIO detects.
+     */
+    edge: InterruptEdge;
+
     /**
      * Counter how often this GPIO is used.
      */
     useCount: number;
   }
+
+  /**
+   * Values of multiple output pins, by pin number.
+   */
+  export type PinValues<T extends IOExpander.PinNumber8 | IOExpander.PinNumber16> = Partial<Record<T, boolean>>;
+
+  /**
+   * Transaction passed to the callback of `batch()`.
+   * All changes are collected and written to the IC at once when the callback is done.
+   * The methods throw an error if a pin is out of range or not defined as output.
+   */
+  export interface Batch<T extends IOExpander.PinNumber8 | IOExpander.PinNumber16> {
+    /**
+     * Set the value of an output pin. If no value is given, the pin will be toggled.
+     */
+    setPin (pin: T, value?: boolean): void;
+
+    /**
+     * Set the values of multiple output pins.
+     */
+    setPins (values: PinValues<T>): void;
+
+    /**
+     * Set the given value to all output pins, or the bits of a number to the output pins.
+     */
+    setAllPins (value: boolean | number): void;
+  }
+
+  /**
+   * A step of a pattern on an output pin, see `sequence()`.
+   */
+  export interface PatternStep {
+    /** The value of the pin during this step. */
+    value: boolean;
+
+    /** Duration of this step in milliseconds. */
+    ms: number;
+  }
+
+  /**
+   * Options for all IOExpander instances.
+   */
+  export interface Options {
+    /**
+     * Arbiter to serialise all transactions on the bus with other expanders and devices.
+     * By default only the operations on the IC itself are serialised.
+     */
+    arbiter?: I2CArbiter;
+
+    /**
+     * Priority of the transactions at the arbiter. Defaults to `I2CArbiter.PRIORITY_DEFAULT`.
+     */
+    priority?: number;
+
+    /**
+     * Priority of the transactions of interrupt triggered polls at the arbiter. Defaults to `I2CArbiter.PRIORITY_INTERRUPT`.
+     */
+    interruptPriority?: number;
+
+    /**
+     * Coalesce writes of the pin states. Default is false.
+     * If enabled, a write which is queued behind other operations takes the changes of all following writes until it starts,
+     * so only one write to the IC is done. All callers get resolved when this write is done.
+     * Note that the merged changes are written before other operations queued in between.
+     */
+    coalesceWrites?: boolean;
+
+    /**
+     * Frequency of the software PWM in Hz, see `setDuty()`. Default is 50.
+     */
+    pwmFrequency?: number;
+
+    /**
+     * Count of steps of each PWM period. Default is 10.
+     * The PWM writes the state of the pins up to `pwmFrequency * pwmResolution` times per second.
+     */
+    pwmResolution?: number;
+  }
+
+  /**
+   * Options for the polling by `startPolling()`.
+   * All intervals are in milliseconds.
+   */
+  export interface PollingOptions {
+    /**
+     * Interval between two polls. Default is 100.
+     */
+    interval?: number;
+
+    /**
+     * Interval after a poll which detected a change of an input. Default is `interval`.
+     * Use a smaller value to speed up polling while inputs are changing.
+     */
+    activeInterval?: number;
+
+    /**
+     * Maximum interval while no change is detected. Default is `interval`.
+     * Use a greater value to back off polling while inputs are idle.
+     */
+    idleInterval?: number;
+
+    /**
+     * Factor to increase the interval after each poll without a change, until `idleInterval` is reached. Default is 2.
+     */
+    backoffFactor?: number;
+  }
+
+  /**
+   * Edge of the interrupt line which signals an interrupt.
+   */
+  export type InterruptEdge = 'falling' | 'rising';
+
+  /**
+   * Interrupt condition captured by the IC, read by `_readInterruptCapture()`.
+   * All values are bitmasks of the pin levels on the chip.
+   */
+  export interface InterruptCapture {
+    /** Bitmask of the pins which caused the interrupt. */
+    flags: number;
+
+    /** The pin levels captured at the time of the interrupt. */
+    captured: number;
+
+    /** The current pin levels. */
+    state: number;
+
+    /** (optional) Bitmask of the pins which have been read. Other pins are not processed. Defaults to all pins. */
+    pins?: number;
+  }
+
+  /**
+   * Transport of the register reads and writes to the IC, e.g. over I2C or SPI.
+   * See `transports.ts` for the built-in implementations.
+   */
+  export interface Transport {
+    /**
+     * The bus or device used by the transport. All instances with the same bus and address share one queue.
+     */
+    readonly bus: object;
+
+    /**
+     * Read bytes from the IC without selecting a register.
+     * @param  {number}  address   The address of the IC.
+     * @param  {number}  byteCount Count of bytes to read.
+     * @return {Promise} Promise which gets resolved with the bytes read, or rejected in case of an error.
+     */
+    read (address: number, byteCount: number): Promise<Buffer>;
+
+    /**
+     * Write bytes to the IC without selecting a register.
+     * @param  {number}  address The address of the IC.
+     * @param  {Buffer}  data    The bytes to write.
+     * @return {Promise} Promise which gets resolved when the bytes are written, or rejected in case of an error.
+     */
+    write (address: number, data: Buffer): Promise<void>;
+
+    /**
+     * Read bytes from the IC, starting at a register.
+     * @param  {number}  address   The address of the IC.
+     * @param  {number}  register  The register where the read starts.
+     * @param  {number}  byteCount Count of bytes to read.
+     * @return {Promise} Promise which gets resolved with the bytes read, or rejected in case of an error.
+     */
+    readRegister (address: number, register: number, byteCount: number): Promise<Buffer>;
+
+    /**
+     * Write bytes to the IC, starting at a register.
+     * @param  {number}  address  The address of the IC.
+     * @param  {number}  register The register where the write starts.
+     * @param  {Buffer}  data     The bytes to write.
+     * @return {Promise} Promise which gets resolved when the bytes are written, or rejected in case of an error.
+     */
+    writeRegister (address: number, register: number, data: Buffer): Promise<void>;
+  }
+}
+
+/**
+ * An enabled interrupt line of an IOExpander.
+ */
+interface EnabledInterruptLine {
+  /** Pin number of GPIO to detect interrupts, or null if no GPIO is used. */
+  gpioPin: number | null;
+
+  /** The source of interrupts. */
+  source: IOExpander.InterruptSource;
+
+  /** The callback registered at the source. */
+  callback: IOExpander.InterruptCallback;
+
+  /** The listener registered for 'error' events of the source, or null if the source is no EventEmitter. */
+  errorListener: ((err: Error) => void) | null;
+}
+
+/**
+ * A register which is shared by multiple instances addressing the same IC.
+ */
+interface SharedRegisterData {
+  /** The value written to the register. */
+  value: number;
+
+  /** The instances using this value. */
+  users: Array<IOExpander<IOExpander.PinNumber8 | IOExpander.PinNumber16>>;
+}
+
+/**
+ * Data shared by all instances addressing the same IC, i.e. the same address on the same bus.
+ */
+interface SharedDeviceData {
+  /** Queue for all I2C operations on the IC. */
+  queue: PromiseQueue;
+
+  /** Registers shared by multiple instances, by register address. */
+  registers: Record<number, SharedRegisterData>;
+}
+
+/**
+ * History of the changes of an input pin, used as ring buffer.
+ */
+interface PinHistory<PinNumber extends IOExpander.PinNumber8 | IOExpander.PinNumber16> {
+  /** The recorded changes. */
+  entries: Array<IOExpander.InputData<PinNumber>>;
+
+  /** Maximum count of recorded changes. */
+  size: number;
+
+  /** Index of the oldest change, once the maximum count is reached. */
+  start: number;
+}
+
+/**
+ * A queued write of the pin states, which takes the changes of following writes if write coalescing is enabled.
+ */
+interface PendingStateWrite {
+  /** PinUpdate packed bytes of all merged writes, in order. */
+  pinUpdates: number[];
+
+  /** Promise of the queued write. */
+  promise: Promise<void>;
+}
+
+/**
+ * A pattern running on an output pin.
+ */
+interface RunningPattern {
+  /** Timer of the next step, or null while a value is written. */
+  timer: NodeJS.Timeout | null;
+
+  /** Function to resolve the Promise of the pattern. */
+  resolve: () => void;
+}
+
+/**
+ * A callback registered by `watch()`.
+ */
+interface PinWatcher<PinNumber extends IOExpander.PinNumber8 | IOExpander.PinNumber16> {
+  /** The watched pin. */
+  pin: PinNumber;
+
+  /** The callback passed to `watch()`. */
+  callback: IOExpander.WatchCallback<PinNumber>;
+
+  /** The listener registered for the event of the watched edge. */
+  listener: (data: IOExpander.InputData<PinNumber>) => void;
 }
 
 /**
@@ -87,6 +483,48 @@ export interface IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExpander
    */
   on (event: 'input', listener: (data: IOExpander.InputData<PinNumber>) => void): this;
 
+  /**
+   * Emit a rising or falling event.
+   * @param event 'rising' or 'falling'
+   * @param data Object containing the pin number and the value.
+   */
+  emit (event: 'rising' | 'falling', data: IOExpander.InputData<PinNumber>): boolean;
+
+  /**
+   * Emitted when the value of an input pin has changed to true ('rising') or to false ('falling').
+   * @param event 'rising' or 'falling'
+   * @param listener Eventlistener with an object containing the pin number and the value as first argument.
+   */
+  on (event: 'rising' | 'falling', listener: (data: IOExpander.InputData<PinNumber>) => void): this;
+
+  /**
+   * Emit an input event of a single pin.
+   * @param event 'input:' followed by the pin number, e.g. 'input:5'
+   * @param data Object containing the pin number and the value.
+   */
+  emit (event: `input:${PinNumber}`, data: IOExpander.InputData<PinNumber>): boolean;
+
+  /**
+   * Emitted when the input pin has changed.
+   * @param event 'input:' followed by the pin number, e.g. 'input:5'
+   * @param listener Eventlistener with an object containing the pin number and the value as first argument.
+   */
+  on (event: `input:${PinNumber}`, listener: (data: IOExpander.InputData<PinNumber>) => void): this;
+
+  /**
+   * Emit a change event.
+   * @param event 'change'
+   * @param data Object containing the previous and the new state of the pins and the changed pins.
+   */
+  emit (event: 'change', data: IOExpander.ChangeData): boolean;
+
+  /**
+   * Emitted once per poll if input pins have changed, after the input events of the changed pins.
+   * @param event 'change'
+   * @param listener Eventlistener with an object containing the previous and the new state of the pins and the changed pins as first argument.
+   */
+  on (event: 'change', listener: (data: IOExpander.ChangeData) => void): this;
+
   /**
    * Emit an interrupt event.
    * @param event 'interrupt'
@@ -100,6 +538,50 @@ export interface IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExpander
    * @param listener Eventlistener with a boolean containing the state of the interrupt processing.
    */
   on (event: 'interrupt', listener: (processed: boolean) => void): this;
+
+  /**
+   * Emit an error event.
+   * @param event 'error'
+   * @param err The error.
+   */
+  emit (event: 'error', err: Error): boolean;
+
+  /**
+   * Emitted when an operation running in the background failed, e.g. an interrupt source.
+   * Only emitted if a listener is registered, so these errors don't crash the process.
+   * @param event 'error'
+   * @param listener Eventlistener with the error as first argument.
+   */
+  on (event: 'error', listener: (err: Error) => void): this;
+}
+
+/**
+ * Convert the bytes read from an IC into an 8 or 16 bit value.
+ * @param  {Buffer}  buffer    The bytes.
+ * @param  {number}  byteCount Count of bytes.  1 or 2
+ * @param  {boolean} msbFirst  If count is 2, optional boolean that determines if the first byte is the msb of the 16 bit value.
+ * @return {number}  The value.
+ */
+function bufferToValue (buffer: Buffer, byteCount: 1 | 2, msbFirst?: boolean): number {
+  if (byteCount === 2) {
+    // If msbFirst then buffer[0] is msb of 16 bit value.  otherwise, buffer[1] is msb of 16 bit value.
+    return !!msbFirst ? ((buffer[0] << 8) | buffer[1]) : (buffer[0] | (buffer[1] << 8));
+  }
+  return buffer[0];
+}
+
+/**
+ * Convert an 8 or 16 bit value into the bytes to write to an IC.
+ * @param  {number}  value     The value.
+ * @param  {number}  byteCount Count of bytes.  1 or 2
+ * @param  {boolean} msbFirst  If count is 2, optional boolean that determines if the first byte is the msb of the 16 bit value.
+ * @return {Buffer}  The bytes.
+ */
+function valueToBuffer (value: number, byteCount: 1 | 2, msbFirst?: boolean): Buffer {
+  if (byteCount === 2) {
+    return Buffer.from(!!msbFirst ? [(value >> 8) & 0xFF, value & 0xFF] : [value & 0xFF, (value >> 8) & 0xFF]);
+  }
+  return Buffer.from([value & 0xFF]);
 }
 
 /**
@@ -121,8 +603,11 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
   /** Object containing all GPIOs used by any instance. */
   private static _allInstancesUsedGpios: Record<number, IOExpander.UsedGpioData> = {};
 
-  /** The instance of the i2c-bus, which is used for the I2C communication. */
-  protected _i2cBus: I2CBus;
+  /** Data of the ICs used by all instances of this class, by bus and address. */
+  private static _allInstancesSharedDevices: WeakMap<object, Record<number, SharedDeviceData>> = new WeakMap();
+
+  /** The transport used for the communication with the IC, e.g. over the i2c-bus. */
+  protected _transport: IOExpander.Transport;
 
   /** The address of the IC. */
   protected _address: number;
@@ -130,6 +615,9 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
   /** Number of pins the IC has. */
   protected abstract _pins: 8 | 16;
 
+  /** Bitmask of the pins of the IC which are controlled by this instance, e.g. one port. By default all pins. */
+  protected _icPinBitmask: number = 0xFFFF;
+
   /** Direction of each pin. By default all pin directions are undefined. */
   protected _directions: Array<IOExpander.PinDirection>;
 
@@ -142,39 +630,121 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
   /** Bitmask for inverted pins. */
   protected _inverted: number;
 
+  /** Bitmask for pins with enabled pull-up resistor. Only used by chips with configurable pull-ups. */
+  protected _pullUpBitmask: number = 0;
+
+  /** Bitmask for pins with interrupt-on-compare instead of interrupt-on-change. */
+  private _interruptCompareBitmask: number = 0;
+
+  /** Bitmask with the values the pins in interrupt-on-compare mode are compared to (not inverted). */
+  private _interruptCompareValues: number = 0;
+
   /** Bitmask representing the current state of the pins. */
   protected _currentState: number = 0;
 
   /** Flag if we are currently polling changes from the IC. */
   private _currentlyPolling: boolean = false;
 
-  /** PromiseQueue to handle requested I2C actions in order. */
-  private _queue: PromiseQueue = new PromiseQueue();
+  /** Data shared with other instances addressing the same IC. */
+  private _sharedDevice: SharedDeviceData;
+
+  /** PromiseQueue to handle requested I2C actions in order. Shared with other instances addressing the same IC. */
+  protected _queue: PromiseQueue;
 
   /** Number of polls currently in the queue */
   private _queuePollCount: number = 0;
 
-  /** Pin number of GPIO to detect interrupts, or null by default. */
-  private _gpioPin: number | null = null;
+  /** true if the interrupt line of the IC is active high. Chips with a configurable interrupt output must set this. */
+  protected _interruptActiveHigh: boolean = false;
+
+  /** The enabled interrupt lines of the IC. Empty if no interrupt is used. */
+  private _interruptLines: EnabledInterruptLine[] = [];
+
+  /** Arbiter to serialise the transactions on the bus, or null if not used. */
+  private _arbiter: I2CArbiter | null;
+
+  /** Priority of the transactions at the arbiter. */
+  private _priority: number;
+
+  /** Priority of the transactions of interrupt triggered polls at the arbiter. */
+  private _interruptPriority: number;
+
+  /** Priority of the current transactions at the arbiter. */
+  private _busPriority: number;
+
+  /** Indicator if writes of the pin states are coalesced. */
+  private _coalesceWrites: boolean;
+
+  /** The queued write of the pin states which did not start yet, or null if there is none. Only used if writes are coalesced. */
+  private _pendingStateWrite: PendingStateWrite | null = null;
+
+  /** Count of writes saved by coalescing. */
+  private _savedWriteCount: number = 0;
+
+  /** Bitmask for pins with a debounce time. */
+  private _debounceBitmask: number = 0;
+
+  /** Debounce time of each pin in milliseconds. */
+  private _debounceMs: number[] = [];
+
+  /** Debounce timer of each pin, or null if no change of the pin is pending. */
+  private _debounceTimers: Array<NodeJS.Timeout | null> = [];
+
+  /** Bitmask for pins with a pending change which was stable for the debounce time. */
+  private _debounceExpired: number = 0;
+
+  /** History of the changes of each pin, or null if the history is disabled. */
+  private _history: Array<PinHistory<PinNumber> | null> = [];
 
-  /** Instance of the used GPIO to detect interrupts, or null if no interrupt is used. */
-  private _gpio: Gpio = null;
+  /** Interval of the PWM steps in milliseconds. */
+  private _pwmInterval: number;
+
+  /** Count of steps of each PWM period. */
+  private _pwmResolution: number;
+
+  /** Bitmask for pins driven by the PWM. */
+  private _pwmBitmask: number = 0;
+
+  /** Duty cycle of each pin driven by the PWM, from 0 to 1. */
+  private _pwmDuty: number[] = [];
+
+  /** The current step of the PWM period. */
+  private _pwmStep: number = 0;
+
+  /** Bitmask of the values of the PWM pins written in the last step. */
+  private _pwmState: number = 0;
+
+  /** Indicator if the write of a PWM step is in progress. */
+  private _pwmWriting: boolean = false;
+
+  /** Timer of the PWM steps, or null if the PWM is not running. */
+  private _pwmTimer: NodeJS.Timeout | null = null;
+
+  /** Pattern running on each pin, or null if there is none. */
+  private _patterns: Array<RunningPattern | null> = [];
+
+  /** Callbacks registered by `watch()`. */
+  private _watchers: Array<PinWatcher<PinNumber>> = [];
+
+  /** Options of the active polling, or null if polling is not started. */
+  private _pollingOptions: Required<IOExpander.PollingOptions> | null = null;
+
+  /** Timer of the next poll, or null if no poll is scheduled. */
+  private _pollingTimer: NodeJS.Timeout | null = null;
 
   /**
    * Constructor for a new IOExpander instance.
    * If you use this IC with one or more input pins, you have to call ...
    *  a) enableInterrupt(gpioPin) to detect interrupts from the IC using a GPIO pin, or
    *  b) doPoll() frequently enough to detect input changes with manually polling.
-   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus.
-   * @param  {number}         address      The address of the IC.
+   * @param  {I2cBus|Transport} i2cBusOrTransport Instance of an opened i2c-bus, or a transport for other buses.
+   * @param  {number}           address           The address of the IC.
+   * @param  {Options}          options           (optional) Options for the instance.
    */
-  constructor (i2cBus: I2CBus, address: number) {
+  constructor (i2cBusOrTransport: I2CBus | IOExpander.Transport, address: number, options?: IOExpander.Options) {
     super();
 
-    // Bind the _handleInterrupt method strictly to this instance.
-    this._handleInterrupt = this._handleInterrupt.bind(this);
-
-    this._i2cBus = i2cBus;
+    this._transport = IOExpander._isTransport(i2cBusOrTransport) ? i2cBusOrTransport : new I2CTransport(i2cBusOrTransport);
 
     // Check the given address.
     if (address < 0 || address > 255) {
@@ -182,6 +752,27 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
     }
     this._address = address;
 
+    // All instances addressing the same IC use the same queue to avoid interleaved I2C operations.
+    this._sharedDevice = IOExpander._useSharedDevice(this._transport.bus, address);
+    this._queue = this._sharedDevice.queue;
+
+    options = options || {};
+    this._arbiter = options.arbiter || null;
+    this._priority = (typeof (options.priority) === 'number') ? options.priority : I2CArbiter.PRIORITY_DEFAULT;
+    this._interruptPriority = (typeof (options.interruptPriority) === 'number') ? options.interruptPriority : I2CArbiter.PRIORITY_INTERRUPT;
+    this._busPriority = this._priority;
+    this._coalesceWrites = !!options.coalesceWrites;
+
+    const pwmFrequency: number = (typeof (options.pwmFrequency) === 'number') ? options.pwmFrequency : 50;
+    if (!(pwmFrequency > 0)) {
+      throw new Error('PWM frequency out of range.');
+    }
+    this._pwmResolution = (typeof (options.pwmResolution) === 'number') ? options.pwmResolution : 10;
+    if (!Number.isInteger(this._pwmResolution) || this._pwmResolution < 2) {
+      throw new Error('PWM resolution out of range.');
+    }
+    this._pwmInterval = 1000 / (pwmFrequency * this._pwmResolution);
+
     // Nothing inverted by default.
     this._inverted = 0;
 
@@ -189,6 +780,18 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
     this._currentState = 0;
   }
 
+  /**
+   * The i2c-bus used for the communication with the IC.
+   * Throws an error if the IC is not addressed through an `I2CTransport`.
+   * @deprecated Use `_transport` instead, which supports all buses.
+   */
+  protected get _i2cBus (): I2CBus {
+    if (!(this._transport instanceof I2CTransport)) {
+      throw new Error('The IC is not addressed through an I2C transport.');
+    }
+    return this._transport.bus;
+  }
+
   /**
    * Asynchronously initialize the chip post construction.
    * @param  {boolean|number} initialHardwareState The initial state of the pins of this IC. You can set a bitmask to define each pin separately, or use true/false for all pins at once.
@@ -211,6 +814,30 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
     // At starup, no pins have been assigned as input.
     this._inputPinBitmaskAssigned = 0;
 
+    // At startup, the pull-up resistors of all pins are enabled on chips with configurable pull-ups.
+    this._pullUpBitmask = Math.pow(2, this._pins) - 1;
+
+    // At startup, all pins use interrupt-on-change.
+    this._interruptCompareBitmask = 0;
+    this._interruptCompareValues = 0;
+
+    // At startup, no pins are debounced.
+    this._cancelDebounce(this._debounceBitmask);
+    this._debounceBitmask = 0;
+    this._debounceMs = new Array(this._pins).fill(0);
+    this._debounceTimers = new Array(this._pins).fill(null);
+
+    // At startup, no history is recorded.
+    this._history = new Array(this._pins).fill(null);
+
+    // At startup, no patterns are running.
+    this.stopAllPatterns();
+    this._patterns = new Array(this._pins).fill(null);
+
+    // At startup, no pins are driven by the PWM.
+    this._stopPwmPins(this._pwmBitmask);
+    this._pwmDuty = new Array(this._pins).fill(0);
+
     if (initialHardwareState === true) {
       initialHardwareState = Math.pow(2, this._pins) - 1;
     } else if (initialHardwareState === false) {
@@ -221,7 +848,44 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
       throw new Error('InitialHardwareState bitmask out of range.');
     }
 
-    return this._initializeChip(initialHardwareState);
+    const initialState = initialHardwareState;
+    return this._queue.enqueue(() => {
+      // Instances controlling the same pins of the IC are no longer initialized, e.g. a previous instance which was not closed.
+      this._releaseSharedRegisters((user) => (user._icPinBitmask & this._icPinBitmask) !== 0);
+      return this._initializeChip(initialState);
+    });
+  }
+
+  /**
+   * Internal function to check if the given object is a transport or an i2c-bus.
+   * @param  {I2CBus|Transport} i2cBusOrTransport The object.
+   * @return {boolean} true if the object is a transport.
+   */
+  private static _isTransport (i2cBusOrTransport: I2CBus | IOExpander.Transport): i2cBusOrTransport is IOExpander.Transport {
+    return typeof ((<IOExpander.Transport>i2cBusOrTransport).readRegister) === 'function' &&
+      typeof ((<IOExpander.Transport>i2cBusOrTransport).writeRegister) === 'function';
+  }
+
+  /**
+   * Internal function to get the data shared by all instances addressing the same IC.
+   * The data is created on first use and kept as long as the bus exists.
+   * @param  {object} bus     The bus, see `Transport.bus`.
+   * @param  {number} address The address of the IC.
+   * @return {SharedDeviceData} The shared data.
+   */
+  private static _useSharedDevice (bus: object, address: number): SharedDeviceData {
+    let devices = IOExpander._allInstancesSharedDevices.get(bus);
+    if (!devices) {
+      devices = {};
+      IOExpander._allInstancesSharedDevices.set(bus, devices);
+    }
+    if (!devices[address]) {
+      devices[address] = {
+        queue: new PromiseQueue(),
+        registers: {}
+      };
+    }
+    return devices[address];
   }
 
   /**
@@ -229,13 +893,39 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
    *
    * This will:
    * - remove all event listeners
+   * - stop the polling, if started
+   * - stop all patterns and the PWM on output pins
+   * - cancel pending debounced changes
    * - disable the interrupt, if used
+   * - release the shared registers of the IC used by this instance
    *
    * @return {Promise} Promise which gets resolved when done.
    */
   public async close (): Promise<void> {
     this.removeAllListeners();
-    await this.disableInterrupt();
+    this._watchers = [];
+    this.stopPolling();
+    this.stopAllPatterns();
+    this._stopPwmPins(this._pwmBitmask);
+    this._cancelDebounce(this._debounceBitmask);
+    try {
+      await this.disableInterrupt();
+    } finally {
+      this._releaseSharedRegisters((user) => user === this);
+    }
+  }
+
+  /**
+   * Helper method to run a transaction on the bus.
+   * If an arbiter is used, the transaction is serialised with all other transactions on the bus.
+   * @param  {Function} transaction Function which starts the transaction and returns a Promise for its completion.
+   * @return {Promise}  Promise which gets resolved (or rejected) when the transaction is done.
+   */
+  protected _runOnBus<T> (transaction: () => Promise<T>) : Promise<T> {
+    if (this._arbiter === null) {
+      return transaction();
+    }
+    return this._arbiter.run(transaction, this._busPriority);
   }
 
   /**
@@ -244,22 +934,9 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
    * @param  {boolean} If count is 2, optional boolean that determines if first byte read is the msb of a 16 bit value.  Default is false.  Ignored if count === 1
    * @return {Promise} Promise which gets resolved with the 8 or 16 bit value is read from the chip, or rejected in case of an error.
    */
-  protected _readChip (byteCount: 1 | 2, msbFirst?: boolean) : Promise<number> {
-    return new Promise<number>((resolve: (chipState: number) => void, reject: (err: Error) => void) => {
-      this._i2cBus.i2cRead(this._address, byteCount, Buffer.alloc(byteCount), (err, bytesRead, buffer) => {
-        if (err || bytesRead !== byteCount) {
-          reject(err);
-        } else {
-          if (byteCount === 2) {
-            // Readstate is 16 bits.
-            // If msbFirst then buffer[0] is msb of 16 bit value.  otherwise, buffer[1] is msb of 16 bit value.
-            resolve(!!msbFirst ? (buffer[0] << 8) | buffer[1] : buffer[0] | (buffer[1] << 8));
-          } else {
-            resolve(buffer[0]);
-          }
-        }
-      });
-    });
+  protected async _readChip (byteCount: 1 | 2, msbFirst?: boolean) : Promise<number> {
+    const buffer = await this._runOnBus(() => this._transport.read(this._address, byteCount));
+    return bufferToValue(buffer, byteCount, msbFirst);
   }
 
   /**
@@ -269,22 +946,19 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
    * @param  {boolean} If count is 2, optional boolean that determines if first byte read is the msb of a 16 bit value.  Default is false.  Ignored if count === 1
    * @return {Promise} Promise which gets resolved with the 8 or 16 bit value is read from the chip, or rejected in case of an error.
    */
-  protected _readChipRegister (register: number, byteCount: 1 | 2, msbFirst?: boolean) : Promise<number> {
-    return new Promise<number>((resolve: (chipState: number) => void, reject: (err: Error) => void) => {
-      this._i2cBus.readI2cBlock(this._address, register & 0xFF, byteCount, Buffer.alloc(byteCount), (err, bytesRead, buffer) => {
-        if (err || bytesRead !== byteCount) {
-          reject(err);
-        } else {
-          if (byteCount === 2) {
-            // Readstate is 16 bits.
-            // If msbFirst then buffer[0] is msb of 16 bit value.  otherwise, buffer[1] is msb of 16 bit value.
-            resolve(!!msbFirst ? ((buffer[0] << 8) | buffer[1]) : (buffer[0] | (buffer[1] << 8)));
-          } else {
-            resolve(buffer[0]);
-          }
-        }
-      });
-    });
+  protected async _readChipRegister (register: number, byteCount: 1 | 2, msbFirst?: boolean) : Promise<number> {
+    const buffer = await this._runOnBus(() => this._transport.readRegister(this._address, register, byteCount));
+    return bufferToValue(buffer, byteCount, msbFirst);
+  }
+
+  /**
+   * Helper method to read a block of consecutive registers from the IC in one transfer.
+   * @param  {number}  Register of the chip where the read starts.
+   * @param  {number}  Count of bytes to read.
+   * @return {Promise} Promise which gets resolved with a Buffer of the bytes read from the chip, or rejected in case of an error.
+   */
+  protected _readChipBlock (register: number, byteCount: number) : Promise<Buffer> {
+    return this._runOnBus(() => this._transport.readRegister(this._address, register, byteCount));
   }
 
   /**
@@ -296,21 +970,7 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
    * @return {Promise} Promise which gets resolved when the 8 or 16 bit value is written to the chip, or rejected in case of an error.
    */
   protected _writeChipRegister (register: number, byteCount: 1 | 2, value: number, msbFirst?: boolean) : Promise<void> {
-    return new Promise<void>((resolve: () => void, reject: (err: Error) => void) => {
-      let arr: number[];
-      if (byteCount === 2) {
-        arr = !!msbFirst ? [(value >> 8) & 0xFF, value & 0xFF] : [value & 0xFF, (value >> 8) & 0xFF];
-      } else {
-        arr = [value & 0xFF];
-      }
-      this._i2cBus.writeI2cBlock(this._address, register & 0xFF, byteCount, Buffer.from(arr), (err, bytesWritten) => {
-        if (err || bytesWritten !== byteCount) {
-          reject(err);
-        } else {
-          resolve();
-        }
-      });
-    });
+    return this._runOnBus(() => this._transport.writeRegister(this._address, register, valueToBuffer(value, byteCount, msbFirst)));
   }
 
   /**
@@ -321,21 +981,73 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
    * @return {Promise} Promise which gets resolved when the 8 or 16 bit value is written to the chip, or rejected in case of an error.
    */
   protected _writeChip (byteCount: 1 | 2, value: number, msbFirst?: boolean) : Promise<void> {
-    return new Promise<void>((resolve: () => void, reject: (err: Error) => void) => {
-      let arr: number[];
-      if (byteCount === 2) {
-        arr = !!msbFirst ? [(value >> 8) & 0xFF, value & 0xFF] : [value & 0xFF, (value >> 8) & 0xFF];
-      } else {
-        arr = [value & 0xFF];
-      }
-      this._i2cBus.i2cWrite(this._address, byteCount, Buffer.from(arr), (err, bytesWritten) => {
-        if (err || bytesWritten !== byteCount) {
-          reject(err);
-        } else {
-          resolve();
-        }
-      });
-    });
+    return this._runOnBus(() => this._transport.write(this._address, valueToBuffer(value, byteCount, msbFirst)));
+  }
+
+  /**
+   * Helper method to write an 8 bit register which is shared with other instances addressing the same IC,
+   * e.g. a configuration register of an IC which is controlled by one instance per port.
+   * The value is recorded for all instances. If another instance already wrote the same value, the write is skipped.
+   * If another instance uses a different value, the write is rejected to not change the configuration of the other instance.
+   * Must be called from within a request on the queue, e.g. in `_initializeChip()`.
+   * @param  {number}  Register of the chip that is target of the write.
+   * @param  {number}  8 bit value to write.
+   * @return {Promise} Promise which gets resolved when the value is written to the chip, or rejected in case of an error.
+   */
+  protected async _writeSharedRegister (register: number, value: number) : Promise<void> {
+    const shared = this._sharedDevice.registers[register];
+    if (shared && shared.users.some((user) => user !== this)) {
+      if (shared.value !== value) {
+        throw new Error('Shared register is used with a different value by another instance.');
+      }
+      if (shared.users.indexOf(this) < 0) {
+        shared.users.push(this);
+      }
+      return;
+    }
+    await this._writeChipRegister(register, 1, value);
+    this._sharedDevice.registers[register] = { value: value, users: [this] };
+  }
+
+  /**
+   * Helper method to check if a shared register is used by other instances addressing the same IC.
+   * If not, the value of the register on the IC is unknown, e.g. after a restart of the application.
+   * Must be called from within a request on the queue, e.g. in `_initializeChip()`.
+   * @param  {number}  Register of the chip.
+   * @return {boolean} true if another instance uses the register.
+   */
+  protected _isSharedRegisterUsed (register: number) : boolean {
+    const shared = this._sharedDevice.registers[register];
+    return !!shared && shared.users.some((user) => user !== this);
+  }
+
+  /**
+   * Helper method to run an operation on another IC on the same bus, in the queue shared by the instances addressing that IC.
+   * The operation gets the shared registers of the other IC, so it can respect and update their recorded values.
+   * Must not be called from within a request on the queue of the other IC.
+   * @param  {number}   address   The address of the other IC.
+   * @param  {Function} operation Function which gets the shared registers by register address and returns a Promise.
+   * @return {Promise}  Promise which gets resolved (or rejected) when the operation is done.
+   */
+  protected _runOnSharedDevice<T> (address: number, operation: (registers: Record<number, { value: number }>) => Promise<T>) : Promise<T> {
+    const device = IOExpander._useSharedDevice(this._transport.bus, address);
+    return device.queue.enqueue(() => operation(device.registers));
+  }
+
+  /**
+   * Internal function to release the shared registers used by some instances addressing the same IC.
+   * Registers without users may be written with any value afterwards.
+   * @param {Function} released Function which returns true for the instances to release the registers of.
+   */
+  private _releaseSharedRegisters (released: (user: IOExpander<IOExpander.PinNumber8 | IOExpander.PinNumber16>) => boolean): void {
+    const registers = this._sharedDevice.registers;
+    for (const register of Object.keys(registers)) {
+      const shared = registers[+register];
+      shared.users = shared.users.filter((user) => !released(user));
+      if (shared.users.length === 0) {
+        delete registers[+register];
+      }
+    }
   }
 
   /**
@@ -378,80 +1090,252 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
   protected _writeInterruptControl (_interruptBitmask: number) : Promise<void> { return Promise.resolve(); }
 
   /**
-   * Enable the interrupt detection on the specified GPIO pin.
+   * Read the captured interrupt condition and the current pin state from the IC.
+   * Chips which latch the pin state at the time of an interrupt may override this method.
+   * It is used instead of `_readState()` when polling after an interrupt.
+   * @param  {number}  line (optional) Index of the interrupt line which fired, if multiple lines are enabled by `_enableInterruptLines()`.
+   * @return {Promise} Promise which gets resolved with the InterruptCapture, or null if the chip has no capture registers, or rejected in case of an error.
+   */
+  protected _readInterruptCapture (_line?: number) : Promise<IOExpander.InterruptCapture | null> { return Promise.resolve(null); }
+
+  /**
+   * Write the pull-up resistor configuration to the IC.
+   * Chips with configurable pull-ups must override this method.
+   * @param  {number}  pullUpBitmask.
+   * @return {Promise} Promise which gets resolved when the pull-up configuration is written to the IC, or rejected in case of an error.
+   */
+  protected _writePullUp (_pullUpBitmask: number) : Promise<void> { return Promise.reject(new Error('Pull-up configuration is not supported by this chip.')); }
+
+  /**
+   * Write the interrupt-on-compare configuration to the IC.
+   * Chips with interrupt-on-compare must override this method. Other chips only support interrupt-on-change.
+   * @param  {number}  compareBitmask Bitmask for pins with interrupt-on-compare.
+   * @param  {number}  defaultValue   Bitmask with the levels on the chip the pins are compared to.
+   * @return {Promise} Promise which gets resolved when the configuration is written to the IC, or rejected in case of an error.
+   */
+  protected _writeInterruptCompare (compareBitmask: number, _defaultValue: number) : Promise<void> {
+    if (compareBitmask === 0) {
+      return Promise.resolve();
+    }
+    return Promise.reject(new Error('Interrupt compare mode is not supported by this chip.'));
+  }
+
+  /**
+   * Check the pin and the options of `inputPin()` before anything is changed.
+   * Chips with additional input options may override this method and must call the base method.
+   * @param  {number}            pin     The pin number.
+   * @param  {InputPinOptions}   options (optional) Additional options for the pin.
+   */
+  protected _validateInputPinOptions (pin: PinNumber, options?: IOExpander.InputPinOptions) : void {
+    if (pin < 0 || pin > (this._pins - 1)) {
+      throw new Error('Pin out of range');
+    }
+
+    if (options && typeof (options.debounceMs) !== 'undefined') {
+      if (typeof (options.debounceMs) !== 'number' || !(options.debounceMs >= 0)) {
+        throw new Error('Debounce time out of range.');
+      }
+    }
+
+    if (options && typeof (options.historySize) !== 'undefined') {
+      if (!Number.isInteger(options.historySize) || options.historySize < 0) {
+        throw new Error('History size out of range.');
+      }
+    }
+  }
+
+  /**
+   * Write the resistor configuration of an input pin from the options of `inputPin()` to the IC.
+   * It is called after the options are validated and before the pin is switched to an input.
+   * Chips with additional input options may override this method and should call the base method.
+   * @param  {number}            pin     The pin number.
+   * @param  {InputPinOptions}   options (optional) Additional options for the pin.
+   * @return {Promise} Promise which gets resolved when the configuration is written to the IC, or rejected in case of an error.
+   */
+  protected async _writeInputPinOptions (pin: PinNumber, options?: IOExpander.InputPinOptions) : Promise<void> {
+    if (options && typeof (options.pullUp) === 'boolean') {
+      await this.setPullUp(pin, options.pullUp);
+    }
+  }
+
+  /**
+   * Enable the interrupt detection on the specified GPIO pin or interrupt source.
    * You can use one GPIO pin for multiple instances of the IOExpander class.
-   * @param {number} gpioPin BCM number of the pin, which will be used for the interrupts from the PCF8574/8574A/PCF8575 IC.
+   * @param {number|InterruptSource} gpioPinOrSource BCM number of the pin, which will be used for the interrupts from the IC, or an InterruptSource.
+   * @return {Promise}          Promise which gets resolved when complete, or rejected in case of an error.
+   */
+  public enableInterrupt (gpioPinOrSource: number | IOExpander.InterruptSource): Promise<void> {
+    return this._enableInterruptLines([gpioPinOrSource]);
+  }
+
+  /**
+   * Enable the interrupt detection for one or more interrupt lines of the IC.
+   * Each line uses its own GPIO pin or interrupt source.
+   * If more than one line is given, an interrupt polls the IC with the index of the line, see `_readInterruptCapture()`.
+   * @param {Array} gpioPinsOrSources BCM numbers of the pins or InterruptSources, one for each interrupt line of the IC.
    * @return {Promise}          Promise which gets resolved when complete, or rejected in case of an error.
    */
-  public async enableInterrupt (gpioPin: number): Promise<void> {
-    if (this._gpio !== null) {
+  protected async _enableInterruptLines (gpioPinsOrSources: Array<number | IOExpander.InterruptSource>): Promise<void> {
+    if (this._interruptLines.length !== 0) {
       // Must first call disable if previously enabled.
       throw new Error('GPIO interrupt already enabled.');
     }
 
+    // Check all arguments before any GPIO is used.
+    for (const gpioPinOrSource of gpioPinsOrSources) {
+      if (typeof (gpioPinOrSource) !== 'number' &&
+        !(gpioPinOrSource && typeof (gpioPinOrSource.watch) === 'function' && typeof (gpioPinOrSource.unwatch) === 'function')) {
+        throw new Error('Invalid interrupt source.');
+      }
+    }
+
+    const lines: EnabledInterruptLine[] = [];
+    try {
+      for (let i = 0; i < gpioPinsOrSources.length; i++) {
+        const gpioPinOrSource = gpioPinsOrSources[i];
+        // A single line signals interrupts of all pins, so no line index is used.
+        const lineIndex = (gpioPinsOrSources.length > 1) ? i : undefined;
+        const callback = (): void => this._handleInterrupt(lineIndex);
+        if (typeof (gpioPinOrSource) === 'number') {
+          lines.push({ gpioPin: gpioPinOrSource, source: this._useGpio(gpioPinOrSource), callback: callback, errorListener: null });
+        } else {
+          // Sources like the GpiodInterruptSource emit errors, which would crash the process without a listener.
+          const errorListener = (gpioPinOrSource instanceof EventEmitter) ? (err: Error): void => this._handleInterruptSourceError(err) : null;
+          lines.push({ gpioPin: null, source: gpioPinOrSource, callback: callback, errorListener: errorListener });
+        }
+      }
+    } catch (err) {
+      // Release the GPIOs used so far.
+      for (const line of lines) {
+        this._releaseGpio(line.gpioPin);
+      }
+      throw err;
+    }
+    this._interruptLines = lines;
+
+    // Enable chip interrupts for input pins.
+    await this._queue.enqueue(() => this._writeInterruptControl(this._inputPinBitmask));
+
+    for (const line of lines) {
+      if (line.errorListener) {
+        (line.source as unknown as EventEmitter).on('error', line.errorListener);
+      }
+      line.source.watch(line.callback);
+    }
+  }
+
+  /**
+   * Internal function to use a GPIO as interrupt source.
+   * The GPIO is shared by all instances of this class and initialized on first use.
+   * @param  {number} gpioPin BCM number of the pin.
+   * @return {InterruptSource} The GPIO.
+   */
+  private _useGpio (gpioPin: number): IOExpander.InterruptSource {
+    const edge = this.getInterruptEdge();
     if (IOExpander._allInstancesUsedGpios[gpioPin]) {
       // Already initialized GPIO
-      this._gpio = IOExpander._allInstancesUsedGpios[gpioPin].gpio;
+      if (IOExpander._allInstancesUsedGpios[gpioPin].edge !== edge) {
+        throw new Error('GPIO already used with a different interrupt edge.');
+      }
       IOExpander._allInstancesUsedGpios[gpioPin].useCount++;
-    } else {
-      // Init the GPIO as input with falling edge,
-      // because the chip will lower the interrupt line on changes
-      this._gpio = new Gpio(gpioPin, 'in', 'falling');
-      IOExpander._allInstancesUsedGpios[gpioPin] = {
-        gpio: this._gpio,
-        useCount: 1
-      };
+      return IOExpander._allInstancesUsedGpios[gpioPin].gpio;
     }
+    // Init the GPIO as input with the edge matching the interrupt line of the chip.
+    // By default the chip will lower the interrupt line on changes.
+    const gpio = new Gpio(gpioPin, 'in', edge);
+    IOExpander._allInstancesUsedGpios[gpioPin] = {
+      gpio: gpio,
+      edge: edge,
+      useCount: 1
+    };
+    return gpio;
+  }
 
-    // Enable chip interrupts for input pins.
-    await this._writeInterruptControl(this._inputPinBitmask);
+  /**
+   * Internal function to release a GPIO used by `_useGpio()`.
+   * Decrease the use count of the GPIO and unexport it if not used anymore.
+   * @param {number | null} gpioPin BCM number of the pin, or null if no GPIO is used.
+   */
+  private _releaseGpio (gpioPin: number | null): void {
+    if (gpioPin !== null && IOExpander._allInstancesUsedGpios[gpioPin]) {
+      IOExpander._allInstancesUsedGpios[gpioPin].useCount--;
+      if (IOExpander._allInstancesUsedGpios[gpioPin].useCount === 0) {
+        // Delete the registered gpio from our allInstancesUsedGpios object as reference count is 0 and gpio is being unexported.
+        IOExpander._allInstancesUsedGpios[gpioPin].gpio.unexport();
+        delete IOExpander._allInstancesUsedGpios[gpioPin];
+      }
+    }
+  }
 
-    // Cache this value so we can properly nullify entry in static_allInstancesUsedGpios object during disableInterrupt calls.
-    this._gpioPin = gpioPin;
-    this._gpio.watch(this._handleInterrupt);
+  /**
+   * Returns the edge of the interrupt line of the IC which signals an interrupt.
+   * This is used when enabling the interrupt detection on a GPIO pin and should be used to configure other interrupt sources.
+   * @return {InterruptEdge} 'falling' for active low, 'rising' for active high interrupt lines.
+   */
+  public getInterruptEdge (): IOExpander.InterruptEdge {
+    return this._interruptActiveHigh ? 'rising' : 'falling';
   }
 
   /**
-   * Internal function to handle a GPIO interrupt.
+   * Internal function to handle an interrupt from the GPIO or interrupt source.
+   * @param {number} line (optional) Index of the interrupt line, if multiple lines are enabled.
    */
-  private _handleInterrupt (): void {
+  private _handleInterrupt (line?: number): void {
     // Enqueue a poll of current state.
     // When poll is serviced, notify listeners that a 'processed' interrupt occurred.
     // When not queued or poll fails, notify listeners of an 'unprocessed' interrupt.
-    this._enqueuePoll()
+    this._enqueuePoll(null, false, performance.now(), line)
       .then(() => this.emit('interrupt', true))
       .catch(() => this.emit('interrupt', false));
   }
 
+  /**
+   * Internal function to handle an error of an interrupt source.
+   * The interrupt is reported as not processed, as further interrupts may be lost.
+   * @param {Error} err The error.
+   */
+  private _handleInterruptSourceError (err: Error): void {
+    this.emit('interrupt', false);
+    this._emitError(err);
+  }
+
+  /**
+   * Internal function to report an error of an operation running in the background.
+   * The 'error' event is only emitted if there is a listener, as an unhandled 'error' event would crash the process.
+   * @param {Error} err The error.
+   */
+  protected _emitError (err: Error): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', err);
+    }
+  }
+
   /**
    * Disable the interrupt detection.
    * This will unexport the interrupt GPIO, if it is not used by an other instance of this class.
    * @return {Promise}          Promise which gets resolved when complete, or rejected in case of an error.
    */
   public async disableInterrupt (): Promise<void> {
-    if (this._gpio === null) {
+    if (this._interruptLines.length === 0) {
       // Nothing to do.
       return;
     }
 
     try {
       // Disable all chip interrupts.
-      await this._writeInterruptControl(0);
+      await this._queue.enqueue(() => this._writeInterruptControl(0));
     } finally {
-      // Remove the interrupt handling.
-      this._gpio.unwatch(this._handleInterrupt);
-
-      // Release the used GPIO.
-      // Decrease the use count of the GPIO and unexport it if not used anymore.
-      if (IOExpander._allInstancesUsedGpios[this._gpioPin]) {
-        IOExpander._allInstancesUsedGpios[this._gpioPin].useCount--;
-        if (IOExpander._allInstancesUsedGpios[this._gpioPin].useCount === 0) {
-          // Delete the registered gpio from our allInstancesUsedGpios object as reference count is 0 and gpio is being unexported.
-          delete IOExpander._allInstancesUsedGpios[this._gpioPin];
-          this._gpio.unexport();
+      for (const line of this._interruptLines) {
+        // Remove the interrupt handling.
+        line.source.unwatch(line.callback);
+        if (line.errorListener) {
+          (line.source as unknown as EventEmitter).removeListener('error', line.errorListener);
         }
+
+        // Release the used GPIO, if any.
+        this._releaseGpio(line.gpioPin);
       }
-      this._gpioPin = this._gpio = null;
+      this._interruptLines = [];
     }
   }
 
@@ -462,7 +1346,7 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
    * @param  {boolean}   value   The new value for the bit. (true=set, false=clear)
    * @return {number}            The new (modified) bitmask.
    */
-  private _setStatePin (current: number, pin: PinNumber, value: boolean): number {
+  protected _setStatePin (current: number, pin: PinNumber, value: boolean): number {
     if (value) {
       // Set the bit.
       return current | 1 << (pin as number);
@@ -478,32 +1362,82 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
    * @return {Promise}          Promise which gets resolved when the state is written to the IC, or rejected in case of an error.
    */
   private _setNewState (pinUpdates?: number[]): Promise<void> {
+    if (this._coalesceWrites) {
+      return this._setNewStateCoalesced(pinUpdates || []);
+    }
+
     // To avoid races, must ensure access and mutation of this._currentState are ordered via a queue.
     return this._queue.enqueue(async () => {
+      await this._writeNewState(pinUpdates);
+    });
+  }
 
-      // Mutate only the pin bits that were requested.
-      if (Array.isArray(pinUpdates)) {
-        for (let i=0; i< pinUpdates.length; i++) {
-          // For speed, we pack bits for both pin and pinState into a byte.
-          // This byte consists of 4 bit Pin number (msn) followed by 4 bit Pin State (lsn).
-          const pinUpdate = pinUpdates[i];
-          const pin: PinNumber = ((pinUpdate >> 4) & 0x0F) as PinNumber;
-          const pinState = (pinUpdate & 0x0F) as IOExpander.PinState;
-          // Toggle, Set, or Reset pin based on state requested.
-          const state: boolean = (pinState === IOExpander.PinState.Toggle) ? !(((this._currentState >> pin) % 2) != 0) : (pinState === IOExpander.PinState.On);
-          this._currentState = this._setStatePin(this._currentState, pin, state);
-        }
+  /**
+   * Write the current state to the IC, merged with the queued write which did not start yet.
+   * @param  {array}  pinUpdates Array containing PinUpdate packed bytes to use to mutate pin bits in current state.
+   * @return {Promise}          Promise which gets resolved when the state is written to the IC, or rejected in case of an error.
+   */
+  private _setNewStateCoalesced (pinUpdates: number[]): Promise<void> {
+    if (this._pendingStateWrite !== null) {
+      this._pendingStateWrite.pinUpdates.push(...pinUpdates);
+      this._savedWriteCount++;
+      return this._pendingStateWrite.promise;
+    }
+
+    const pending: PendingStateWrite = {
+      pinUpdates: pinUpdates.slice(),
+      promise: Promise.resolve()
+    };
+    this._pendingStateWrite = pending;
+    // The queue may start the write instantly, so the pending write has to be set before.
+    pending.promise = this._queue.enqueue(async () => {
+      // Following writes are queued again once this write has started.
+      if (this._pendingStateWrite === pending) {
+        this._pendingStateWrite = null;
       }
+      await this._writeNewState(pending.pinUpdates);
+    });
+    return pending.promise;
+  }
 
-      // Respect inverted with bitmask using XOR.
-      let newIcState = this._currentState ^ this._inverted;
+  /**
+   * Apply the pin updates to the current state and write it to the IC.
+   * This must always be called from within a request on the promise-queue.
+   * @param  {array}  pinUpdates (optional) Array containing PinUpdate packed bytes to use to mutate pin bits in current state.
+   * @return {Promise}          Promise which gets resolved when the state is written to the IC, or rejected in case of an error.
+   */
+  private async _writeNewState (pinUpdates?: number[]): Promise<void> {
+    // Mutate only the pin bits that were requested.
+    if (Array.isArray(pinUpdates)) {
+      for (let i=0; i< pinUpdates.length; i++) {
+        // For speed, we pack bits for both pin and pinState into a byte.
+        // This byte consists of 4 bit Pin number (msn) followed by 4 bit Pin State (lsn).
+        const pinUpdate = pinUpdates[i];
+        const pin: PinNumber = ((pinUpdate >> 4) & 0x0F) as PinNumber;
+        const pinState = (pinUpdate & 0x0F) as IOExpander.PinState;
+        // Toggle, Set, or Reset pin based on state requested.
+        const state: boolean = (pinState === IOExpander.PinState.Toggle) ? !(((this._currentState >> pin) % 2) != 0) : (pinState === IOExpander.PinState.On);
+        this._currentState = this._setStatePin(this._currentState, pin, state);
+      }
+    }
 
-      // Set all input pins to high.
-      newIcState = newIcState | this._inputPinBitmask;
+    // Respect inverted with bitmask using XOR.
+    let newIcState = this._currentState ^ this._inverted;
 
-      // Write output to chip and wait until done.
-      await this._writeState(newIcState);
-    });
+    // Set all input pins to high.
+    newIcState = newIcState | this._inputPinBitmask;
+
+    // Write output to chip and wait until done.
+    await this._writeState(newIcState);
+  }
+
+  /**
+   * Returns the count of writes of the pin states which were saved by coalescing them with other writes.
+   * See the `coalesceWrites` option.
+   * @return {number} The count of saved writes.
+   */
+  public getSavedWriteCount (): number {
+    return this._savedWriteCount;
   }
 
   /**
@@ -520,9 +1454,11 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
    * This is called if an interrupt occurred, or if doPoll() is called manually.
    * Additionally this is called if a new input is defined to read the current state of this pin.
    * @param {PinNumber | null} noEmit (optional) Pin number of a pin which should not trigger an event. (used for getting the current state while defining a pin as input)
+   * @param {number} interruptTime (optional) Time of the interrupt if the poll is caused by an interrupt. The interrupt capture of the IC is read and processed first if supported.
+   * @param {number} line (optional) Index of the interrupt line which caused the poll, if multiple lines are enabled.
    * @return {Promise<number>} - value representing pin states following any I2C read/write and update of the internal state.
    */
-  private async _poll (noEmit?: PinNumber | null): Promise<number> {
+  private async _poll (noEmit?: PinNumber | null, interruptTime?: number, line?: number): Promise<number> {
     // IMPORTANT: To avoid races, _poll must always be called from within a request on the promise-queue - see `_enqueuePoll`.
     if (this._currentlyPolling) {
       throw new Error('Another poll is in progress.');
@@ -530,40 +1466,184 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
 
     this._currentlyPolling = true;
 
+    const interrupt: boolean = (typeof (interruptTime) === 'number');
+
+    // Transactions of interrupt triggered polls take precedence over other transactions on the bus.
+    if (interrupt) {
+      this._busPriority = this._interruptPriority;
+    }
+
     try {
-      let readState: number = await this._readState();
+      const capture: IOExpander.InterruptCapture | null = interrupt ? await this._readInterruptCapture(line) : null;
+      let readState: number = (capture !== null) ? capture.state : await this._readState();
+      const timestamp: number = performance.now();
 
       // Process data read from chip and notify input pins of changes.
       this._currentlyPolling = false;
 
-      // Respect inverted with bitmask using XOR.
-      readState = readState ^ this._inverted;
+      // Respect inverted with bitmask using XOR.
+      readState = readState ^ this._inverted;
+
+      // The pins which have been read. A capture of one interrupt line may only cover some of the pins.
+      const readPins: number = (capture !== null && typeof (capture.pins) === 'number') ? capture.pins : 0xFFFF;
+
+      const previousState: number = this._currentState;
+      let emittedPins: number = 0;
+
+      // Pins with a debounce time. The state of a pin which is just defined as input is taken without debouncing.
+      let debouncePins: number = this._debounceBitmask & readPins;
+      if (typeof (noEmit) === 'number') {
+        debouncePins = this._setStatePin(debouncePins, noEmit, false);
+        this._cancelDebounce(1 << noEmit);
+      }
+
+      if (capture !== null) {
+        // Process the captured values of the pins which caused the interrupt first.
+        // A short pulse may already be over when the current state is read, so it is only visible in the capture.
+        const captured: number = capture.captured ^ this._inverted;
+        const capturedPinsThatChanged: number = ((this._currentState ^ captured) & capture.flags & this._inputPinBitmask) & this._inputPinBitmaskAssigned;
+        emittedPins |= this._processInputChanges(capturedPinsThatChanged & ~debouncePins, captured, noEmit, timestamp, interruptTime);
+
+        // A debounced pin which caused the interrupt is not stable, so its debounce time starts again.
+        this._cancelDebounce(capture.flags & debouncePins);
+      }
+
+      // Calculate exactly which pins have changed and then remove pin bits for pins that are not inputs.
+      // The result of `this._currentState` XOR `readState` gives us 1 bits for pins that changed
+      // then we AND with `this._inputPinBitMask` to reflect only pins that are inputs at chip-level.
+      //
+      // Now that we know which pins have changed, we AND that value with this._inputPinBitmaskAssigned
+      // as we only want to process changes for pins that application has assigned via `inputPin()`.
+      const inputPinsThatChanged: number = ((this._currentState ^ readState) & this._inputPinBitmask & readPins) & this._inputPinBitmaskAssigned;
+
+      // Debounced pins which are back at their last state are stable, so cancel their pending change.
+      this._cancelDebounce(debouncePins & ~inputPinsThatChanged);
+
+      // Changes of debounced pins are only processed once the debounce time expired.
+      const debouncedPinsThatChanged: number = this._debounce(inputPinsThatChanged & debouncePins);
+
+      emittedPins |= this._processInputChanges((inputPinsThatChanged & ~debouncePins) | debouncedPinsThatChanged, readState, noEmit, timestamp, interruptTime);
+
+      // Notify listeners of all changes of this poll at once, so they get a consistent snapshot of the pins.
+      if (emittedPins !== 0) {
+        const data = <IOExpander.ChangeData>{ previousState: previousState, state: this._currentState, changed: emittedPins, timestamp: timestamp };
+        if (typeof (interruptTime) === 'number') {
+          data.interruptTimestamp = interruptTime;
+        }
+        this.emit('change', data);
+      }
+      return this._currentState;
+
+    } catch (err) {
+      this._currentlyPolling = false;
+      throw err;
+    } finally {
+      this._busPriority = this._priority;
+    }
+  }
+
+  /**
+   * Internal function to debounce changed input pins.
+   * For each pin without a pending change, the debounce timer is started. When it expires, the IC is polled again.
+   * @param  {number} changedPins Bitmask of the debounced input pins which have changed.
+   * @return {number} Bitmask of the changed pins which were stable for the debounce time.
+   */
+  private _debounce (changedPins: number): number {
+    const stablePins = changedPins & this._debounceExpired;
+    this._debounceExpired &= ~stablePins;
+
+    for (let pin = 0; pin < this._pins; pin++) {
+      if (((changedPins & ~stablePins) >> pin) % 2 && this._debounceTimers[pin] === null) {
+        this._startDebounceTimer(pin as PinNumber);
+      }
+    }
+    return stablePins;
+  }
+
+  /**
+   * Internal function to start the debounce timer of a pin. When it expires, the IC is polled again.
+   * If this poll fails, the error is emitted and the timer is started again to retry the poll,
+   * as there may be no other poll without a change of the pins, e.g. if only an interrupt is used.
+   * @param {PinNumber} pin The pin number.
+   */
+  private _startDebounceTimer (pin: PinNumber): void {
+    this._debounceTimers[pin] = setTimeout(() => {
+      this._debounceTimers[pin] = null;
+      this._debounceExpired = this._setStatePin(this._debounceExpired, pin, true);
+      // Poll again to process the change if the pin is still stable.
+      this._enqueuePoll(null, true).catch((err) => {
+        this._emitError(err);
+        // Retry unless the change was processed by another poll or the debounce was cancelled in the meantime.
+        if ((this._debounceExpired >> (pin as number)) % 2 && this._debounceTimers[pin] === null) {
+          this._startDebounceTimer(pin);
+        }
+      });
+    }, this._debounceMs[pin]);
+  }
+
+  /**
+   * Internal function to cancel the pending changes of debounced pins.
+   * @param {number} pins Bitmask of the pins.
+   */
+  private _cancelDebounce (pins: number): void {
+    for (let pin = 0; pin < this._debounceTimers.length; pin++) {
+      if ((pins >> pin) % 2 && this._debounceTimers[pin] !== null) {
+        clearTimeout(this._debounceTimers[pin]);
+        this._debounceTimers[pin] = null;
+      }
+    }
+    this._debounceExpired &= ~pins;
+  }
 
-      // Calculate exactly which pins have changed and then remove pin bits for pins that are not inputs.
-      // The result of `this._currentState` XOR `readState` gives us 1 bits for pins that changed
-      // then we AND with `this._inputPinBitMask` to reflect only pins that are inputs at chip-level.
-      //
-      // Now that we know which pins have changed, we AND that value with this._inputPinBitmaskAssigned
-      // as we only want to process changes for pins that application has assigned via `inputPin()`.
-      const inputPinsThatChanged: number = ((this._currentState ^ readState) & this._inputPinBitmask) & this._inputPinBitmaskAssigned;
-
-      // If no input pins have changed, don't loop unless we detect them.
-      if (inputPinsThatChanged !== 0) {
-        for (let pin = 0; pin < this._pins; pin++) {
-          if ((inputPinsThatChanged >> pin) % 2) {
-            const value: boolean = ((readState >> pin) % 2 !== 0);
-            this._currentState = this._setStatePin(this._currentState, pin as PinNumber, value);
-            if (noEmit !== pin) {
-              this.emit('input', <IOExpander.InputData<PinNumber>>{ pin: pin, value: value });
-            }
+  /**
+   * Internal function to update the internal state of changed input pins and notify listeners.
+   * @param {number}           changedPins Bitmask of the input pins which have changed.
+   * @param {number}           state       The new state of the pins, respecting inverted pins.
+   * @param {PinNumber | null} noEmit        (optional) Pin number of a pin which should not trigger an event.
+   * @param {number}           timestamp     (optional) Time of the read which detected the changes.
+   * @param {number}           interruptTime (optional) Time of the interrupt which triggered the read.
+   * @return {number} Bitmask of the changed pins which have emitted an event.
+   */
+  private _processInputChanges (changedPins: number, state: number, noEmit?: PinNumber | null, timestamp?: number, interruptTime?: number): number {
+    // If no input pins have changed, don't loop unless we detect them.
+    if (changedPins === 0) {
+      return 0;
+    }
+    let emittedPins: number = 0;
+    for (let pin = 0; pin < this._pins; pin++) {
+      if ((changedPins >> pin) % 2) {
+        const value: boolean = ((state >> pin) % 2 !== 0);
+        this._currentState = this._setStatePin(this._currentState, pin as PinNumber, value);
+        if (noEmit !== pin) {
+          const data = <IOExpander.InputData<PinNumber>>{ pin: pin, value: value, timestamp: timestamp };
+          if (typeof (interruptTime) === 'number') {
+            data.interruptTimestamp = interruptTime;
           }
+          this._recordHistory(data);
+          this.emit('input', data);
+          this.emit(`input:${pin as PinNumber}`, data);
+          this.emit(value ? 'rising' : 'falling', data);
+          emittedPins |= (1 << pin);
         }
       }
-      return this._currentState;
+    }
+    return emittedPins;
+  }
 
-    } catch (err) {
-      this._currentlyPolling = false;
-      throw err;
+  /**
+   * Internal function to record a change of an input pin in the history of the pin.
+   * @param {InputData} data The data of the input event.
+   */
+  private _recordHistory (data: IOExpander.InputData<PinNumber>): void {
+    const history = this._history[data.pin];
+    if (!history) {
+      return;
+    }
+    if (history.entries.length < history.size) {
+      history.entries.push(data);
+    } else {
+      history.entries[history.start] = data;
+      history.start = (history.start + 1) % history.size;
     }
   }
 
@@ -574,9 +1654,11 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
    * When trying to enqueue a poll if already the max limit of polls are queued, the Promise will be rejected.
    * @param {PinNumber | null} noEmit (optional) Pin number of a pin which should not trigger an event. (used for getting the current state while defining a pin as input)
    * @param {boolean} ignoreMaxPollCount Ignore the maximum limit of polls in queue and enqueue anyways.
+   * @param {number} interruptTime (optional) Time of the interrupt if the poll is caused by an interrupt.
+   * @param {number} line (optional) Index of the interrupt line which caused the poll, if multiple lines are enabled.
    * @returns {Promise<number>} Promise resolving to the pin states after successfull poll.
    */
-  private async _enqueuePoll (noEmit?: PinNumber | null, ignoreMaxPollCount?: boolean): Promise<number> {
+  private async _enqueuePoll (noEmit?: PinNumber | null, ignoreMaxPollCount?: boolean, interruptTime?: number, line?: number): Promise<number> {
     if (!ignoreMaxPollCount && this._queuePollCount >= (3 + this._pins)) {
       throw new Error('Too many polls in queue.');
     }
@@ -586,7 +1668,7 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
       let v;
       // Wrap with try/catch to ensure counter is decremented if the read fails.
       try {
-        v = await this._poll(noEmit);
+        v = await this._poll(noEmit, interruptTime, line);
         this._queuePollCount--;
       } catch (err) {
         this._queuePollCount--;
@@ -609,19 +1691,118 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
     return this._enqueuePoll(null, ignoreMaxPollCount);
   }
 
+  /**
+   * Start polling the IC frequently to detect input changes without an interrupt.
+   * A poll is skipped if another poll is queued or active, e.g. one triggered by an interrupt.
+   * Failed polls are retried with the next poll. If polling is already started, it is restarted with the new options.
+   * @param {PollingOptions} options (optional) The intervals of the polling.
+   */
+  public startPolling (options?: IOExpander.PollingOptions): void {
+    options = options || {};
+    const interval = (typeof (options.interval) !== 'undefined') ? options.interval : 100;
+    const pollingOptions: Required<IOExpander.PollingOptions> = {
+      interval: interval,
+      activeInterval: (typeof (options.activeInterval) !== 'undefined') ? options.activeInterval : interval,
+      idleInterval: (typeof (options.idleInterval) !== 'undefined') ? options.idleInterval : interval,
+      backoffFactor: (typeof (options.backoffFactor) !== 'undefined') ? options.backoffFactor : 2
+    };
+    for (const value of [pollingOptions.interval, pollingOptions.activeInterval, pollingOptions.idleInterval]) {
+      if (typeof (value) !== 'number' || !(value > 0)) {
+        throw new Error('Polling interval out of range.');
+      }
+    }
+    if (typeof (pollingOptions.backoffFactor) !== 'number' || !(pollingOptions.backoffFactor >= 1)) {
+      throw new Error('Polling backoff factor out of range.');
+    }
+
+    this.stopPolling();
+    this._pollingOptions = pollingOptions;
+    this._schedulePoll(pollingOptions.interval);
+  }
+
+  /**
+   * Stop the polling started by `startPolling()`.
+   */
+  public stopPolling (): void {
+    if (this._pollingTimer !== null) {
+      clearTimeout(this._pollingTimer);
+      this._pollingTimer = null;
+    }
+    this._pollingOptions = null;
+  }
+
+  /**
+   * Internal function to schedule the next poll of the polling started by `startPolling()`.
+   * @param {number} delay The delay of the poll in milliseconds.
+   */
+  private _schedulePoll (delay: number): void {
+    const options = this._pollingOptions;
+    this._pollingTimer = setTimeout(() => {
+      this._pollingTimer = null;
+
+      if (this.isPolling()) {
+        // Skip this poll as a poll is already queued or active.
+        this._schedulePoll(delay);
+        return;
+      }
+
+      const previousState = this._currentState;
+      this._enqueuePoll(null)
+        .then((state) => ((previousState ^ state) & this._inputPinBitmaskAssigned) !== 0)
+        .catch((err) => {
+          // The poll is retried with the next poll, so only report the error.
+          this._emitError(err);
+          return false;
+        })
+        .then((changed) => {
+          if (this._pollingOptions !== options) {
+            // Polling was stopped or restarted in the meantime.
+            return;
+          }
+          // Speed up after a change and back off while idle.
+          const nextDelay = changed ? options.activeInterval : Math.min(delay * options.backoffFactor, options.idleInterval);
+          this._schedulePoll(nextDelay);
+        });
+    }, delay);
+  }
+
   /**
    * Define a pin as an input.
    * This marks the pin for input processing and activates the high level on this pin.
    * @param  {PinNumber}         pin      The pin number. (0 to 7 for PCF8574/PCF8574A, 0 to 15 for PCF8575, CAT9555, and MCP23017)
    * @param  {boolean}           inverted true if this pin should be handled inverted (high=false, low=true)
+   * @param  {InputPinOptions}   options  (optional) Additional options for the pin.
    * @return {Promise<number>}   number The current state of the pins.
    */
-  public async inputPin (pin: PinNumber, inverted: boolean): Promise<number> {
-    if (pin < 0 || pin > (this._pins - 1)) {
-      throw new Error('Pin out of range');
+  public async inputPin (pin: PinNumber, inverted: boolean, options?: IOExpander.InputPinOptions): Promise<number> {
+    this._validateInputPinOptions(pin, options);
+
+    // Inputs do not run patterns or the PWM.
+    this.stopPattern(pin);
+    this.stopPwm(pin);
+
+    await this._writeInputPinOptions(pin, options);
+
+    const newInverted = this._setStatePin(this._inverted, pin, inverted);
+    if (options && typeof (options.interruptMode) !== 'undefined') {
+      // Set the interrupt mode respecting the new inverted flag of the pin.
+      await this._updateInterruptCompare(pin, options.interruptMode, newInverted);
+    } else if (newInverted !== this._inverted) {
+      // The compared level on the chip changes with the inverted flag.
+      await this._updateInterruptCompare(pin, null, newInverted);
     }
+    this._inverted = newInverted;
 
-    this._inverted = this._setStatePin(this._inverted, pin, inverted);
+    if (options && typeof (options.debounceMs) === 'number') {
+      this._cancelDebounce(1 << pin);
+      this._debounceMs[pin] = options.debounceMs;
+      this._debounceBitmask = this._setStatePin(this._debounceBitmask, pin, options.debounceMs > 0);
+    }
+
+    if (options && typeof (options.historySize) === 'number') {
+      const entries = this.getPinHistory(pin).slice(-options.historySize);
+      this._history[pin] = (options.historySize > 0) ? { entries: entries, size: options.historySize, start: 0 } : null;
+    }
 
     this._inputPinBitmask = this._setStatePin(this._inputPinBitmask, pin, true);
 
@@ -630,10 +1811,8 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
 
     this._directions[pin] = IOExpander.DIR_IN;
 
-    // set the input bit mask
-    await this._writeDirection(this._inputPinBitmask);
-    // ... and then write interrupt control flags if required
-    await this._writeInterruptControl(this._inputPinBitmask);
+    // set the input bit mask and interrupt control flags
+    await this._updateDirection();
     // ... and call _setNewState() to activate the high level on the input pin ...
     await this._setNewState();
     // ... and then poll all current inputs with noEmit on this pin to suppress the event
@@ -641,6 +1820,85 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
   }
 
 
+  /**
+   * Enable or disable the internal pull-up resistor of a pin.
+   * Only supported by chips with configurable pull-ups (MCP23008/MCP23017). Other chips reject the request.
+   * @param  {PinNumber} pin     The pin number. (0 to 7 for MCP23008, 0 to 15 for MCP23017)
+   * @param  {boolean}   enabled true to enable the pull-up resistor.
+   * @return {Promise}
+   */
+  public async setPullUp (pin: PinNumber, enabled: boolean): Promise<void> {
+    if (pin < 0 || pin > (this._pins - 1)) {
+      throw new Error('Pin out of range.');
+    }
+
+    // Calculate the new bitmask in the queue to not lose concurrent changes of other pins.
+    await this._queue.enqueue(async () => {
+      const pullUpBitmask = this._setStatePin(this._pullUpBitmask, pin, enabled);
+      await this._writePullUp(pullUpBitmask);
+      this._pullUpBitmask = pullUpBitmask;
+    });
+  }
+
+  /**
+   * Set the interrupt mode of an input pin.
+   * Modes other than 'change' are only supported by chips with interrupt-on-compare (MCP23008/MCP23017). Other chips reject the request.
+   * @param  {PinNumber}     pin  The pin number. (0 to 7 for MCP23008, 0 to 15 for MCP23017)
+   * @param  {InterruptMode} mode The interrupt mode.
+   * @return {Promise}
+   */
+  public async setInterruptMode (pin: PinNumber, mode: IOExpander.InterruptMode): Promise<void> {
+    if (pin < 0 || pin > (this._pins - 1)) {
+      throw new Error('Pin out of range.');
+    }
+
+    // Check the mode before anything is queued.
+    this._getInterruptCompare(pin, mode);
+    await this._updateInterruptCompare(pin, mode, this._inverted);
+  }
+
+  /**
+   * Internal function to calculate the interrupt-on-compare bitmasks for a new interrupt mode of a pin.
+   * @param  {PinNumber}     pin  The pin number.
+   * @param  {InterruptMode} mode The interrupt mode.
+   * @return {Array<number>}      The new compare bitmask and compare values.
+   */
+  private _getInterruptCompare (pin: PinNumber, mode: IOExpander.InterruptMode): [number, number] {
+    switch (mode) {
+      case 'change':
+        return [this._setStatePin(this._interruptCompareBitmask, pin, false), this._setStatePin(this._interruptCompareValues, pin, false)];
+      case 'compare-to-high':
+        return [this._setStatePin(this._interruptCompareBitmask, pin, true), this._setStatePin(this._interruptCompareValues, pin, true)];
+      case 'compare-to-low':
+        return [this._setStatePin(this._interruptCompareBitmask, pin, true), this._setStatePin(this._interruptCompareValues, pin, false)];
+      default:
+        throw new Error('Invalid interrupt mode.');
+    }
+  }
+
+  /**
+   * Internal function to write and store the interrupt-on-compare configuration for a new interrupt mode of a pin.
+   * The new configuration is calculated in the queue to not lose concurrent changes of other pins.
+   * @param  {PinNumber}     pin      The pin number.
+   * @param  {InterruptMode} mode     The new interrupt mode, or null to only update the compared level of the pin.
+   * @param  {number}        inverted Bitmask for inverted pins used to calculate the levels on the chip.
+   * @return {Promise}
+   */
+  private _updateInterruptCompare (pin: PinNumber, mode: IOExpander.InterruptMode | null, inverted: number): Promise<void> {
+    return this._queue.enqueue(async () => {
+      if (mode === null && !((this._interruptCompareBitmask >> pin) % 2)) {
+        // The pin uses interrupt-on-change, so there is no compared level.
+        return;
+      }
+      const [compareBitmask, compareValues] = (mode === null) ?
+        [this._interruptCompareBitmask, this._interruptCompareValues] : this._getInterruptCompare(pin, mode);
+      // Respect inverted with bitmask using XOR.
+      await this._writeInterruptCompare(compareBitmask, (compareValues ^ inverted) & compareBitmask);
+      this._interruptCompareBitmask = compareBitmask;
+      this._interruptCompareValues = compareValues;
+    });
+  }
+
   /**
    * Define a pin as an output.
    * This marks the pin to be used as an output pin.
@@ -654,8 +1912,16 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
       throw new Error('Pin out of range');
     }
 
+    // A running pattern or the PWM would overwrite the initial value.
+    this.stopPattern(pin);
+    this.stopPwm(pin);
+
     this._inverted = this._setStatePin(this._inverted, pin, inverted);
 
+    // Outputs are not debounced.
+    this._cancelDebounce(1 << pin);
+    this._debounceBitmask = this._setStatePin(this._debounceBitmask, pin, false);
+
     this._inputPinBitmask = this._setStatePin(this._inputPinBitmask, pin, false);
 
     // Ensure pin is NOT treated as an input pin for purposes of change detection in `_poll()`.
@@ -665,28 +1931,326 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
 
     // Set the initial value only if it is defined, otherwise keep the last value (probably from the initial state).
     if (typeof (initialValue) === 'undefined') {
-      // set the input bit mask
-      await this._writeDirection(this._inputPinBitmask);
-      // ... and then write interrupt control flags if required
-      await this._writeInterruptControl(this._inputPinBitmask);
+      // set the input bit mask and interrupt control flags
+      await this._updateDirection();
     } else {
+      // set the input bit mask and interrupt control flags
+      await this._updateDirection();
+      // ... and then set the internal pin state.
+      await this._setPinInternal(pin, initialValue ? IOExpander.PinState.On : IOExpander.PinState.Off);
+    }
+  }
+
+  /**
+   * Internal function to write the input bit mask and the interrupt control flags to the IC.
+   * @return {Promise}
+   */
+  private _updateDirection (): Promise<void> {
+    return this._queue.enqueue(async () => {
       // set the input bit mask
       await this._writeDirection(this._inputPinBitmask);
       // ... and then write interrupt control flags if required
       await this._writeInterruptControl(this._inputPinBitmask);
-      // ... and then set the internal pin state.
-      await this._setPinInternal(pin, initialValue ? IOExpander.PinState.On : IOExpander.PinState.Off);
-    }
+    });
   }
 
   /**
    * Set the value of an output pin.
    * If no value is given, the pin will be toggled.
+   * A pattern or the PWM driving the pin is stopped.
    * @param  {PinNumber} pin   The pin number. (0 to 7 for PCF8574/PCF8574A, 0 to 15 for PCF8575, CAT9555, and MCP23017)
    * @param  {boolean}   value The new value for this pin.
    * @return {Promise}
    */
   public async setPin (pin: PinNumber, value?: boolean): Promise<void> {
+    const pinUpdates = [this._getOutputPinUpdate(pin, value)];
+    this._stopDrivenPins(pinUpdates);
+    return this._setNewState(pinUpdates);
+  }
+
+  /**
+   * Set the values of multiple output pins with a single write to the IC.
+   * A MCP23017 with separate interrupt lines (IOCON.BANK=1) writes each port separately.
+   * Patterns or the PWM driving these pins are stopped.
+   * @param  {PinValues} values Object with the new values by pin number, e.g. `{ 3: false, 5: true }`.
+   * @return {Promise}
+   */
+  public async setPins (values: IOExpander.PinValues<PinNumber>): Promise<void> {
+    const pinUpdates = this._getPinValuesUpdates(values);
+    if (pinUpdates.length === 0) {
+      // Nothing to do.
+      return;
+    }
+    this._stopDrivenPins(pinUpdates);
+    return this._setNewState(pinUpdates);
+  }
+
+  /**
+   * Change multiple output pins with a single write to the IC.
+   * A MCP23017 with separate interrupt lines (IOCON.BANK=1) writes each port separately.
+   * The callback gets a transaction to collect the changes. When the callback is done, all changes are written at once.
+   * If the callback throws an error or rejects, nothing is written.
+   * Patterns or the PWM driving the changed pins are stopped.
+   * @param  {Function} callback Function which collects the changes using the transaction.
+   * @return {Promise}  Promise which gets resolved with the result of the callback when the changes are written to the IC.
+   */
+  public async batch<T = void> (callback: (tx: IOExpander.Batch<PinNumber>) => T | Promise<T>): Promise<T> {
+    const pinUpdates: number[] = [];
+    let done = false;
+    const check = (): void => {
+      if (done) {
+        throw new Error('Batch is already finished.');
+      }
+    };
+    const tx: IOExpander.Batch<PinNumber> = {
+      setPin: (pin, value) => {
+        check();
+        pinUpdates.push(this._getOutputPinUpdate(pin, value));
+      },
+      setPins: (values) => {
+        check();
+        pinUpdates.push(...this._getPinValuesUpdates(values));
+      },
+      setAllPins: (value) => {
+        check();
+        pinUpdates.push(...this._getAllPinsUpdates(value));
+      }
+    };
+
+    try {
+      const result = await callback(tx);
+      if (pinUpdates.length > 0) {
+        this._stopDrivenPins(pinUpdates);
+        await this._setNewState(pinUpdates);
+      }
+      return result;
+    } finally {
+      done = true;
+    }
+  }
+
+  /**
+   * Set an output pin to a value for the given time and back to the opposite value afterwards.
+   * A pattern running on the pin is replaced.
+   * @param  {PinNumber} pin   The pin number. (0 to 7 for PCF8574/PCF8574A, 0 to 15 for PCF8575, CAT9555, and MCP23017)
+   * @param  {number}    ms    Duration of the pulse in milliseconds.
+   * @param  {boolean}   value (optional) The value of the pin during the pulse. Defaults to true.
+   * @return {Promise}   Promise which gets resolved when the pulse is done or stopped, or rejected in case of an error.
+   */
+  public pulse (pin: PinNumber, ms: number, value?: boolean): Promise<void> {
+    const pulseValue: boolean = (typeof (value) === 'boolean') ? value : true;
+    return this.sequence(pin, [{ value: pulseValue, ms: ms }, { value: !pulseValue, ms: 0 }]);
+  }
+
+  /**
+   * Blink an output pin. Each period starts with the on time (value true) followed by the off time (value false).
+   * A pattern running on the pin is replaced.
+   * @param  {PinNumber} pin   The pin number. (0 to 7 for PCF8574/PCF8574A, 0 to 15 for PCF8575, CAT9555, and MCP23017)
+   * @param  {number}    onMs  The on time in milliseconds.
+   * @param  {number}    offMs The off time in milliseconds.
+   * @param  {number}    count (optional) Count of periods. Defaults to Infinity, so the pin blinks until it is stopped.
+   * @return {Promise}   Promise which gets resolved when all periods are done or the blinking is stopped, or rejected in case of an error.
+   */
+  public blink (pin: PinNumber, onMs: number, offMs: number, count?: number): Promise<void> {
+    return this.sequence(pin, [{ value: true, ms: onMs }, { value: false, ms: offMs }], (typeof (count) === 'number') ? count : Infinity);
+  }
+
+  /**
+   * Run a pattern on an output pin. Each step sets the value of the pin and waits for its duration.
+   * The values are written through the queue of the IC like `setPin()`. After the last step, the pin keeps its value.
+   * A pattern running on the pin is replaced.
+   * @param  {PinNumber}     pin    The pin number. (0 to 7 for PCF8574/PCF8574A, 0 to 15 for PCF8575, CAT9555, and MCP23017)
+   * @param  {PatternStep[]} steps  The steps of the pattern.
+   * @param  {number}        repeat (optional) Count of runs of the pattern, or Infinity to run it until it is stopped. Defaults to 1.
+   * @return {Promise}       Promise which gets resolved when the pattern is done or stopped, or rejected in case of an error.
+   */
+  public async sequence (pin: PinNumber, steps: IOExpander.PatternStep[], repeat?: number): Promise<void> {
+    // Check the pin before the steps, so the pattern is never started on an invalid pin.
+    this._getOutputPinUpdate(pin);
+
+    if (!Array.isArray(steps) || steps.length === 0 || steps.some((step) => typeof (step.value) !== 'boolean' || !(step.ms >= 0))) {
+      throw new Error('Invalid pattern.');
+    }
+    const runs: number = (typeof (repeat) === 'number') ? repeat : 1;
+    if (!(runs >= 1) || (runs !== Infinity && !Number.isInteger(runs))) {
+      throw new Error('Pattern repeat count out of range.');
+    }
+
+    this.stopPattern(pin);
+    this.stopPwm(pin);
+
+    return new Promise<void>((resolve, reject) => {
+      const pattern: RunningPattern = { timer: null, resolve: resolve };
+      this._patterns[pin] = pattern;
+      let step = 0;
+
+      const next = (): void => {
+        pattern.timer = null;
+        if (this._patterns[pin] !== pattern) {
+          // Stopped or replaced.
+          return;
+        }
+        if (step >= steps.length * runs) {
+          this._patterns[pin] = null;
+          resolve();
+          return;
+        }
+
+        const current = steps[step % steps.length];
+        step++;
+        this._setPinInternal(pin, current.value ? IOExpander.PinState.On : IOExpander.PinState.Off)
+          .then(() => {
+            if (this._patterns[pin] === pattern) {
+              if (current.ms > 0) {
+                pattern.timer = setTimeout(next, current.ms);
+              } else {
+                next();
+              }
+            }
+          })
+          .catch((err) => {
+            if (this._patterns[pin] === pattern) {
+              this._patterns[pin] = null;
+            }
+            reject(err);
+          });
+      };
+      next();
+    });
+  }
+
+  /**
+   * Stop the pattern running on an output pin, started by `pulse()`, `blink()` or `sequence()`.
+   * The pin keeps its current value and the Promise of the pattern gets resolved.
+   * @param {PinNumber} pin The pin number. (0 to 7 for PCF8574/PCF8574A, 0 to 15 for PCF8575, CAT9555, and MCP23017)
+   */
+  public stopPattern (pin: PinNumber): void {
+    const pattern = this._patterns[pin];
+    if (!pattern) {
+      return;
+    }
+    this._patterns[pin] = null;
+    if (pattern.timer !== null) {
+      clearTimeout(pattern.timer);
+    }
+    pattern.resolve();
+  }
+
+  /**
+   * Stop the patterns running on all output pins.
+   */
+  public stopAllPatterns (): void {
+    for (let pin = 0; pin < this._patterns.length; pin++) {
+      this.stopPattern(pin as PinNumber);
+    }
+  }
+
+  /**
+   * Drive an output pin by the software PWM with the given duty cycle.
+   * All pins driven by the PWM are written at once in each step of the PWM period, through the queue of the IC like `setPin()`.
+   * The state is only written if a value of the pins changes. A step is skipped if the write of the last step is not done yet.
+   * A pattern running on the pin is stopped. Use `stopPwm()` to stop driving the pin by the PWM.
+   * @param {PinNumber} pin  The pin number. (0 to 7 for PCF8574/PCF8574A, 0 to 15 for PCF8575, CAT9555, and MCP23017)
+   * @param {number}    duty The duty cycle from 0 (always false) to 1 (always true). Rounded to the PWM resolution.
+   */
+  public setDuty (pin: PinNumber, duty: number): void {
+    this._getOutputPinUpdate(pin);
+    if (typeof (duty) !== 'number' || !(duty >= 0 && duty <= 1)) {
+      throw new Error('Duty cycle out of range.');
+    }
+
+    this.stopPattern(pin);
+    this._pwmDuty[pin] = duty;
+    this._pwmBitmask = this._setStatePin(this._pwmBitmask, pin, true);
+    this._pwmState = this._setStatePin(this._pwmState, pin, ((this._currentState >> (pin as number)) % 2 !== 0));
+
+    if (this._pwmTimer === null) {
+      this._pwmStep = 0;
+      this._pwmTimer = setInterval(() => this._pwmTick(), this._pwmInterval);
+    }
+  }
+
+  /**
+   * Stop driving an output pin by the software PWM. The pin keeps its current value.
+   * @param {PinNumber} pin The pin number. (0 to 7 for PCF8574/PCF8574A, 0 to 15 for PCF8575, CAT9555, and MCP23017)
+   */
+  public stopPwm (pin: PinNumber): void {
+    this._stopPwmPins(1 << pin);
+  }
+
+  /**
+   * Internal function to stop the patterns and the PWM driving the pins of PinUpdates, as they would overwrite the new values.
+   * @param {number[]} pinUpdates Array of PinUpdate packed bytes.
+   */
+  private _stopDrivenPins (pinUpdates: number[]): void {
+    for (const pinUpdate of pinUpdates) {
+      const pin = (pinUpdate >> 4) as PinNumber;
+      this.stopPattern(pin);
+      this.stopPwm(pin);
+    }
+  }
+
+  /**
+   * Internal function to stop driving pins by the software PWM.
+   * @param {number} pins Bitmask of the pins.
+   */
+  private _stopPwmPins (pins: number): void {
+    this._pwmBitmask &= ~pins;
+    if (this._pwmBitmask === 0 && this._pwmTimer !== null) {
+      clearInterval(this._pwmTimer);
+      this._pwmTimer = null;
+    }
+  }
+
+  /**
+   * Internal function to write the values of the pins driven by the PWM in the current step of the PWM period.
+   */
+  private _pwmTick (): void {
+    if (this._pwmWriting) {
+      // Skip this step as the last write is not done yet.
+      return;
+    }
+
+    const step = this._pwmStep;
+    this._pwmStep = (step + 1) % this._pwmResolution;
+
+    const pinUpdates: number[] = [];
+    let state: number = 0;
+    for (let pin = 0; pin < this._pins; pin++) {
+      if ((this._pwmBitmask >> pin) % 2) {
+        const value: boolean = step < Math.round(this._pwmDuty[pin] * this._pwmResolution);
+        state = this._setStatePin(state, pin as PinNumber, value);
+        // For speed, we pack bits for both pin and pinState into a byte.
+        // This byte consists of 4 bit Pin number (msn) followed by 4 bit Pin State (lsn).
+        pinUpdates.push((pin << 4) | ((value ? IOExpander.PinState.On : IOExpander.PinState.Off) & 0x0F));
+      }
+    }
+
+    if (state === (this._pwmState & this._pwmBitmask)) {
+      // Nothing changed.
+      return;
+    }
+    this._pwmState = state;
+
+    this._pwmWriting = true;
+    this._setNewState(pinUpdates)
+      .catch((err) => {
+        // Write the state again in the next step.
+        this._pwmState = ~state;
+        this._emitError(err);
+      })
+      .then(() => {
+        this._pwmWriting = false;
+      });
+  }
+
+  /**
+   * Internal function to get the PinUpdate to set the value of an output pin.
+   * @param  {PinNumber} pin   The pin number. (0 to 7 for PCF8574/PCF8574A, 0 to 15 for PCF8575, CAT9555, and MCP23017)
+   * @param  {boolean}   value The new value for this pin. If not given, the pin will be toggled.
+   * @return {number}    PinUpdate packed byte.
+   */
+  private _getOutputPinUpdate (pin: PinNumber, value?: boolean): number {
     if (pin < 0 || pin > (this._pins - 1)) {
       throw new Error('Pin out of range.');
     }
@@ -696,7 +2260,28 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
     }
 
     // If value was supplied, we turn pin on or off according to the value, otherwise, we toggle the pin.
-    return this._setPinInternal(pin, (typeof (value) !== 'undefined') ? (value ? IOExpander.PinState.On : IOExpander.PinState.Off) : IOExpander.PinState.Toggle);
+    const pinState: IOExpander.PinState = (typeof (value) !== 'undefined') ? (value ? IOExpander.PinState.On : IOExpander.PinState.Off) : IOExpander.PinState.Toggle;
+    // For speed, we pack bits for both pin and pinState into a byte.
+    // This byte consists of 4 bit Pin number (msn) followed by 4 bit Pin State (lsn).
+    return (pin << 4) | (pinState & 0x0F);
+  }
+
+  /**
+   * Internal function to get the PinUpdates to set the values of multiple output pins.
+   * All pins are checked before any PinUpdate is returned.
+   * @param  {PinValues} values Object with the new values by pin number.
+   * @return {number[]}  Array of PinUpdate packed bytes.
+   */
+  private _getPinValuesUpdates (values: IOExpander.PinValues<PinNumber>): number[] {
+    const pinUpdates: number[] = [];
+    for (const key of Object.keys(values)) {
+      const value = values[Number(key) as PinNumber];
+      if (typeof (value) !== 'boolean') {
+        throw new Error('Pin value must be a boolean.');
+      }
+      pinUpdates.push(this._getOutputPinUpdate(Number(key) as PinNumber, value));
+    }
+    return pinUpdates;
   }
 
   /**
@@ -713,6 +2298,7 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
 
   /**
    * Set the given value to all output pins if boolean or sets output pins based on bits with value if a number.
+   * Patterns and the PWM driving output pins are stopped.
    * @param  {boolean | number} value The new value for all output pins.
    * @return {Promise}
    */
@@ -721,7 +2307,17 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
       // Nothing to do.
       return;
     }
+    const pinUpdates = this._getAllPinsUpdates(value);
+    this._stopDrivenPins(pinUpdates);
+    return this._setNewState(pinUpdates);
+  }
 
+  /**
+   * Internal function to get the PinUpdates to set the given value to all output pins.
+   * @param  {boolean | number} value The new value for all output pins, or a bitmask with the values.
+   * @return {number[]}         Array of PinUpdate packed bytes.
+   */
+  private _getAllPinsUpdates (value: boolean | number): number[] {
     const  pinUpdates: number[] = [],
       valueIsBoolean = typeof (value) === 'boolean';
 
@@ -736,7 +2332,7 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
         pinUpdates.push((pin << 4) | (pinState & 0x0F));
       }
     }
-    return this._setNewState(pinUpdates);
+    return pinUpdates;
   }
 
   /**
@@ -755,6 +2351,73 @@ export abstract class IOExpander<PinNumber extends IOExpander.PinNumber8 | IOExp
       return ((this._currentState >> (pin as number)) % 2 !== 0)
     });
   }
+
+  /**
+   * Returns the recorded changes of a pin, oldest first.
+   * The history has to be enabled using the `historySize` option of `inputPin()`.
+   * @param  {PinNumber} pin The pin number. (0 to 7 for PCF8574/PCF8574A, 0 to 15 for PCF8575, CAT9555, and MCP23017)
+   * @return {InputData[]} The data of the last input events of the pin, or an empty array if the history is disabled.
+   */
+  public getPinHistory (pin: PinNumber): Array<IOExpander.InputData<PinNumber>> {
+    if (pin < 0 || pin > (this._pins - 1)) {
+      throw new Error('Pin out of range.');
+    }
+    const history = this._history[pin];
+    if (!history) {
+      return [];
+    }
+    return history.entries.slice(history.start).concat(history.entries.slice(0, history.start));
+  }
+
+  /**
+   * Watch an input pin for changes, like `Gpio.watch()` of onoff.
+   * The callback is called with the new value and the pin number whenever the value of the pin changes on the given edge.
+   * The pin has to be defined as input to detect changes.
+   * @param {PinNumber}     pin      The pin number. (0 to 7 for PCF8574/PCF8574A, 0 to 15 for PCF8575, CAT9555, and MCP23017)
+   * @param {WatchEdge}     edge     The edge to watch: 'rising', 'falling' or 'both'.
+   * @param {WatchCallback} callback The callback.
+   */
+  public watch (pin: PinNumber, edge: IOExpander.WatchEdge, callback: IOExpander.WatchCallback<PinNumber>): void {
+    if (pin < 0 || pin > (this._pins - 1)) {
+      throw new Error('Pin out of range.');
+    }
+    if (edge !== 'rising' && edge !== 'falling' && edge !== 'both') {
+      throw new Error('Invalid watch edge.');
+    }
+
+    const listener = (data: IOExpander.InputData<PinNumber>): void => {
+      if (edge === 'both' || data.value === (edge === 'rising')) {
+        callback(data.value, data.pin);
+      }
+    };
+    this._watchers.push({ pin, callback, listener });
+    this.on(`input:${pin}`, listener);
+  }
+
+  /**
+   * Stop watching an input pin.
+   * @param {PinNumber}     pin      The pin number. (0 to 7 for PCF8574/PCF8574A, 0 to 15 for PCF8575, CAT9555, and MCP23017)
+   * @param {WatchCallback} callback (optional) The callback passed to `watch()`. If not given, all callbacks of the pin are removed.
+   */
+  public unwatch (pin: PinNumber, callback?: IOExpander.WatchCallback<PinNumber>): void {
+    this._watchers = this._watchers.filter((watcher) => {
+      if (watcher.pin !== pin || (callback && watcher.callback !== callback)) {
+        return true;
+      }
+      this.removeListener(`input:${pin}`, watcher.listener);
+      return false;
+    });
+  }
+
+  /**
+   * Stop watching all input pins.
+   */
+  public unwatchAll (): void {
+    for (const watcher of this._watchers) {
+      this.removeListener(`input:${watcher.pin}`, watcher.listener);
+    }
+    this._watchers = [];
+  }
 }
 
 export namespace IOExpander {
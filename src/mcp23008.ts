@@ -9,11 +9,12 @@
 import { I2CBus } from 'i2c-bus';
 
 import { IOExpander } from './ioExpander';
+import { ioconFlagsFromOptions } from './mcp23017';
 
 // By annotating an enum option, you set the value;
 // increments continue from that value:
 
-enum MCP23008_IOCON_FLAGS {
+export enum MCP23008_IOCON_FLAGS {
   DEFAULT = 0x00,
   /*
   SEQ_OP_ENABLE = 0x00,
@@ -30,7 +31,7 @@ enum MCP23008_IOCON_FLAGS {
 }
 
 // These are Bank0 mappings (see datasheet for bank 1)
-enum MCP23008_REGISTERS {
+export enum MCP23008_REGISTERS {
   IODIR = 0x00, // IO direction- 1= input 0 = output
 
   // Input polarity - If a bit is set, the corresponding GPIO register bit
@@ -89,6 +90,33 @@ export namespace MCP23008 {
    * @type {Object}
    */
   export type InputData = IOExpander.InputData<PinNumber>;
+
+  /**
+   * Options for the configuration register (IOCON) of the IC and the instance.
+   */
+  export interface Options extends IOExpander.Options {
+    /**
+     * Use an active high interrupt output (INT_POLARITY_HIGH). Requires a push-pull interrupt output.
+     * Default is active low.
+     */
+    interruptActiveHigh?: boolean;
+
+    /**
+     * Use an open-drain interrupt output (INT_OPEN_DRAIN_ENABLED), which requires an external pull-up resistor.
+     * Default is true, or false if `interruptActiveHigh` is set.
+     */
+    interruptOpenDrain?: boolean;
+
+    /**
+     * Disable the slew rate control of the SDA output (SDA_SLEW_DISABLED). Default is false.
+     */
+    sdaSlewRateDisabled?: boolean;
+
+    /**
+     * Disable the sequential operation (SEQ_OP_DISABLE). Default is false.
+     */
+    sequentialOperationDisabled?: boolean;
+  }
 }
 
 /**
@@ -99,35 +127,40 @@ export class MCP23008 extends IOExpander<IOExpander.PinNumber8> {
   /** Number of pins the IC has that are to be exposed PortA has 8 pins and PortB has 8 pins. */
   protected _pins = <const>8;
 
+  /** Flags written to the configuration register (IOCON). */
+  protected _ioconFlags: number;
+
   /**
    * Constructor for a new MCP23017 instance for pins on Port A.
    * If you use this IC with one or more input pins, you have to call ...
    *  a) enableInterrupt(gpioPin) to detect interrupts from the IC using a GPIO pin, or
    *  b) doPoll() frequently enough to detect input changes with manually polling.
-   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus.
+   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus, or a transport for other buses.
    * @param  {number}         address      The address of the MCP23017 IC.
+   * @param  {Options}        options      (optional) Configuration of the IC. By default, interrupts are open-drain and active low.
    */
-  constructor (i2cBus: I2CBus, address: number) {
-    super(i2cBus, address);
+  constructor (i2cBus: I2CBus | IOExpander.Transport, address: number, options?: MCP23008.Options) {
+    super(i2cBus, address, options);
+    // The MCP23008 has a single interrupt line, so there is nothing to mirror.
+    this._ioconFlags = ioconFlagsFromOptions(options || {}, false);
+    this._interruptActiveHigh = (this._ioconFlags & MCP23008_IOCON_FLAGS.INT_POLARITY_HIGH) !== 0;
   }
 
   protected async _initializeChip (initialHardwareState: number) : Promise<void> {
-    // On startup, Default chip config to use Bank 0 with Open-Drain (Active Low) interrupts
-    const ioconFlags =
-      MCP23008_IOCON_FLAGS.DEFAULT |
-      MCP23008_IOCON_FLAGS.INT_OPEN_DRAIN_ENABLED;
-
-    await this._writeChipRegister(MCP23008_REGISTERS.IOCON, 1, ioconFlags);
+    // On startup, configure the chip to use the requested interrupt output.
+    // The value is recorded as shared register, as the MCP23S08 changes it when enabling hardware addressing of other ICs.
+    await this._writeSharedRegister(MCP23008_REGISTERS.IOCON, this._ioconFlags);
     // Disable all interrupts.
     await this._writeChipRegister(MCP23008_REGISTERS.GPINTEN, 1, 0x00);
     // Set pins marked as input.
     await this._writeChipRegister(MCP23008_REGISTERS.IODIR, 1, this._inputPinBitmask);
-    // Force all pins to Pull-Up.
-    await this._writeChipRegister(MCP23008_REGISTERS.GPPU, 1, 0xFF);
+    // Set the pull-up resistors, all enabled by default.
+    await this._writeChipRegister(MCP23008_REGISTERS.GPPU, 1, this._pullUpBitmask);
     // Force no Polarity Invert as we will manage this in software with the _inverted bitField.
     await this._writeChipRegister(MCP23008_REGISTERS.IPOL, 1, 0x00);
-    // Set interrupt change default values to 0.
+    // Use interrupt-on-change for all pins with compare default values of 0.
     await this._writeChipRegister(MCP23008_REGISTERS.INTCON, 1, 0x00);
+    await this._writeChipRegister(MCP23008_REGISTERS.DEFVAL, 1, 0x00);
     // Write the initial state which should have no effect as all ports set as input (IODIRA) but ensures output register is set appropriately.
     await this._writeChipRegister(MCP23008_REGISTERS.OLAT, 1, initialHardwareState);
   }
@@ -147,4 +180,28 @@ export class MCP23008 extends IOExpander<IOExpander.PinNumber8> {
   protected _writeInterruptControl(interruptBitmask: number) : Promise<void> {
     return this._writeChipRegister(MCP23008_REGISTERS.GPINTEN, 1, interruptBitmask);
   }
+
+  protected _writePullUp (pullUpBitmask: number) : Promise<void> {
+    return this._writeChipRegister(MCP23008_REGISTERS.GPPU, 1, pullUpBitmask);
+  }
+
+  protected async _writeInterruptCompare (compareBitmask: number, defaultValue: number) : Promise<void> {
+    // Write the default values first to avoid interrupts from an intermediate configuration.
+    await this._writeChipRegister(MCP23008_REGISTERS.DEFVAL, 1, defaultValue);
+    await this._writeChipRegister(MCP23008_REGISTERS.INTCON, 1, compareBitmask);
+  }
+
+  protected async _readInterruptCapture () : Promise<IOExpander.InterruptCapture> {
+    if (this._ioconFlags & MCP23008_IOCON_FLAGS.SEQ_OP_DISABLE) {
+      // Without sequential operation the address pointer does not increment.
+      // INTF and INTCAP keep their values until the interrupt is cleared by reading INTCAP.
+      const flags = await this._readChipRegister(MCP23008_REGISTERS.INTF, 1);
+      const captured = await this._readChipRegister(MCP23008_REGISTERS.INTCAP, 1);
+      const state = await this._readChipRegister(MCP23008_REGISTERS.GPIO, 1);
+      return { flags, captured, state };
+    }
+    // INTF, INTCAP and GPIO are consecutive registers, so read them in one burst.
+    const data = await this._readChipBlock(MCP23008_REGISTERS.INTF, 3);
+    return { flags: data[0], captured: data[1], state: data[2] };
+  }
 }
\ No newline at end of file
@@ -13,7 +13,7 @@ import { IOExpander } from './ioExpander';
 // By annotating an enum option, you set the value;
 // increments continue from that value:
 
-enum MCP23017_IOCON_FLAGS {
+export enum MCP23017_IOCON_FLAGS {
   DEFAULT = 0x00,
   /*
   ADDR_BANK_0 = 0x00,
@@ -34,7 +34,7 @@ enum MCP23017_IOCON_FLAGS {
 }
 
 // These are Bank0 mappings (see datasheet for bank 1)
-enum MCP23017_REGISTERS {
+export enum MCP23017_REGISTERS {
   IODIRA = 0x00, // IO direction A - 1= input 0 = output
   IODIRB = 0x01, // IO direction B - 1= input 0 = output
 
@@ -95,6 +95,51 @@ enum MCP23017_REGISTERS {
   OLATB = 0x15 // Output latches B
 }
 
+/**
+ * Translate the address of a register in BANK=0 into its address in BANK=1.
+ * In BANK=1 the registers of port A are at 0x00 to 0x0A and the registers of port B at 0x10 to 0x1A.
+ * @param  {number} register The address of the register in BANK=0.
+ * @return {number} The address of the register in BANK=1.
+ */
+export function bank1Register (register: MCP23017_REGISTERS): number {
+  return ((register & 0x01) << 4) | (register >> 1);
+}
+
+/**
+ * Build the IOCON flags from the given options.
+ * Also used by the MCP23008, whose IOCON has the same bits except BANK and MIRROR.
+ * @param  {MCP23017.Options} options       The options.
+ * @param  {boolean}          mirrorDefault Default for mirroring the interrupt lines.
+ * @return {number} The IOCON flags.
+ */
+export function ioconFlagsFromOptions (options: MCP23017.Options, mirrorDefault: boolean): number {
+  const activeHigh = !!options.interruptActiveHigh;
+  // The polarity only applies to a push-pull output, so an active high interrupt defaults to push-pull.
+  const openDrain = (typeof (options.interruptOpenDrain) === 'boolean') ? options.interruptOpenDrain : !activeHigh;
+  if (openDrain && activeHigh) {
+    throw new Error('An active high interrupt requires a push-pull interrupt output.');
+  }
+  const mirror = (typeof (options.interruptMirror) === 'boolean') ? options.interruptMirror : mirrorDefault;
+
+  let ioconFlags: number = MCP23017_IOCON_FLAGS.DEFAULT;
+  if (mirror) {
+    ioconFlags |= MCP23017_IOCON_FLAGS.INT_MIRROR_ON;
+  }
+  if (options.sequentialOperationDisabled) {
+    ioconFlags |= MCP23017_IOCON_FLAGS.SEQ_OP_DISABLE;
+  }
+  if (options.sdaSlewRateDisabled) {
+    ioconFlags |= MCP23017_IOCON_FLAGS.SDA_SLEW_DISABLED;
+  }
+  if (openDrain) {
+    ioconFlags |= MCP23017_IOCON_FLAGS.INT_OPEN_DRAIN_ENABLED;
+  }
+  if (activeHigh) {
+    ioconFlags |= MCP23017_IOCON_FLAGS.INT_POLARITY_HIGH;
+  }
+  return ioconFlags;
+}
+
 /**
  * Namespace for types for MCP23017
  */
@@ -117,64 +162,229 @@ export namespace MCP23017 {
    * @type {Object}
    */
   export type InputData = IOExpander.InputData<PinNumber>;
+
+  /**
+   * Options for the configuration register (IOCON) of the IC and the instance.
+   */
+  export interface Options extends IOExpander.Options {
+    /**
+     * Use an active high interrupt output (INT_POLARITY_HIGH). Requires a push-pull interrupt output.
+     * Default is active low.
+     */
+    interruptActiveHigh?: boolean;
+
+    /**
+     * Use an open-drain interrupt output (INT_OPEN_DRAIN_ENABLED), which requires an external pull-up resistor.
+     * Default is true, or false if `interruptActiveHigh` is set.
+     */
+    interruptOpenDrain?: boolean;
+
+    /**
+     * Mirror the interrupt lines INTA and INTB (INT_MIRROR_ON), so both lines signal interrupts of both ports.
+     * Default is true. Only available on the 16 pin MCP23017.
+     */
+    interruptMirror?: boolean;
+
+    /**
+     * Disable the slew rate control of the SDA output (SDA_SLEW_DISABLED). Default is false.
+     */
+    sdaSlewRateDisabled?: boolean;
+
+    /**
+     * Disable the sequential operation (SEQ_OP_DISABLE). Default is false.
+     */
+    sequentialOperationDisabled?: boolean;
+  }
 }
 
 /**
  * Class for handling a MCP23017 IC.
+ *
+ * With mirrored interrupts, the IC uses IOCON.BANK=0, where the registers of port A and B are interleaved,
+ * so both ports are read and written with one transfer.
+ * Without mirrored interrupts, the IC uses IOCON.BANK=1, where the registers of each port are consecutive,
+ * so an interrupt on INTA or INTB reads the INTF, INTCAP and GPIO registers of its port with one transfer.
  */
 export class MCP23017 extends IOExpander<IOExpander.PinNumber16> {
 
   /** Number of pins the IC has. */
   protected _pins = <const>16;
 
+  /** Flags written to the configuration register (IOCON). */
+  protected _ioconFlags: number;
+
   /**
    * Constructor for a new MCP23017 instance.
    * If you use this IC with one or more input pins, you have to call ...
    *  a) enableInterrupt(gpioPin) to detect interrupts from the IC using a GPIO pin, or
    *  b) doPoll() frequently enough to detect input changes with manually polling.
-   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus.
+   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus, or a transport for other buses.
    * @param  {number}         address      The address of the MCP23017 IC.
+   * @param  {Options}        options      (optional) Configuration of the IC. By default, interrupts are mirrored, open-drain and active low.
    */
-  constructor (i2cBus: I2CBus, address: number) {
-    super(i2cBus, address);
+  constructor (i2cBus: I2CBus | IOExpander.Transport, address: number, options?: MCP23017.Options) {
+    super(i2cBus, address, options);
+    this._ioconFlags = ioconFlagsFromOptions(options || {}, true);
+    if (!(this._ioconFlags & MCP23017_IOCON_FLAGS.INT_MIRROR_ON)) {
+      // Separate interrupt lines read the registers of one port, which are only consecutive in BANK=1.
+      this._ioconFlags |= MCP23017_IOCON_FLAGS.ADDR_BANK_1;
+    }
+    this._interruptActiveHigh = (this._ioconFlags & MCP23017_IOCON_FLAGS.INT_POLARITY_HIGH) !== 0;
   }
 
   protected async _initializeChip (initialHardwareState: number) : Promise<void> {
-    // On startup, Default chip config to use Bank 0 with Interrupt Mirroring and Open-Drain (Active Low) interrupts
-    const ioconFlags =
-      MCP23017_IOCON_FLAGS.DEFAULT |
-      MCP23017_IOCON_FLAGS.INT_MIRROR_ON |
-      MCP23017_IOCON_FLAGS.INT_OPEN_DRAIN_ENABLED;
-
-    await this._writeChipRegister(MCP23017_REGISTERS.IOCONA, 1, ioconFlags);
+    if (!this._isSharedRegisterUsed(MCP23017_REGISTERS.IOCONA)) {
+      // The IC may still use BANK=1, e.g. configured by a previous run. Reset IOCON at its BANK=1 address to switch to BANK=0.
+      // In BANK=0 this address is GPINTENB, which is cleared below anyway.
+      // Hardware addressing of the MCP23S17 stays enabled, otherwise the IC would no longer respond to its address.
+      await this._writeChipRegister(bank1Register(MCP23017_REGISTERS.IOCONA), 1, this._ioconFlags & MCP23017_IOCON_FLAGS.MCP23S17_HW_ADDR_ENABLED);
+    }
+    // On startup, configure the chip to use the register bank and the requested interrupt output.
+    // IOCON is shared by both ports, so coordinate the write with other instances addressing this IC.
+    await this._writeSharedRegister(MCP23017_REGISTERS.IOCONA, this._ioconFlags);
     // Disable all interrupts.
-    await this._writeChipRegister(MCP23017_REGISTERS.GPINTENA, 2, 0x00);
+    await this._writePorts(MCP23017_REGISTERS.GPINTENA, 0x00);
     // Set pins marked as input.
-    await this._writeChipRegister(MCP23017_REGISTERS.IODIRA, 2, this._inputPinBitmask);
-    // Force all pins to Pull-Up.
-    await this._writeChipRegister(MCP23017_REGISTERS.GPPUA, 2, 0xFFFF);
+    await this._writePorts(MCP23017_REGISTERS.IODIRA, this._inputPinBitmask);
+    // Set the pull-up resistors, all enabled by default.
+    await this._writePorts(MCP23017_REGISTERS.GPPUA, this._pullUpBitmask);
     // Force no Polarity Invert as we will manage this in software with the _inverted bitField.
-    await this._writeChipRegister(MCP23017_REGISTERS.IPOLA, 2, 0x00);
-    // Set interrupt change default values to 0.
-    await this._writeChipRegister(MCP23017_REGISTERS.INTCONA, 2, 0x00);
+    await this._writePorts(MCP23017_REGISTERS.IPOLA, 0x00);
+    // Use interrupt-on-change for all pins with compare default values of 0.
+    await this._writePorts(MCP23017_REGISTERS.INTCONA, 0x00);
+    await this._writePorts(MCP23017_REGISTERS.DEFVALA, 0x00);
     // Write the initial state which should have no effect as all ports set as input (IODIRA) but ensures output register is set appropriately.
-    await this._writeChipRegister(MCP23017_REGISTERS.OLATA, 2, initialHardwareState);
+    await this._writePorts(MCP23017_REGISTERS.OLATA, initialHardwareState);
   }
 
   protected _readState () : Promise<number> {
-    return this._readChipRegister(MCP23017_REGISTERS.GPIOA, 2);
+    return this._readPorts(MCP23017_REGISTERS.GPIOA);
   }
 
   protected _writeState (state: number) : Promise<void> {
-    return this._writeChipRegister(MCP23017_REGISTERS.OLATA, 2, state);
+    return this._writePorts(MCP23017_REGISTERS.OLATA, state);
   }
 
   protected _writeDirection (inputPinBitmask: number) : Promise<void> {
-    return this._writeChipRegister(MCP23017_REGISTERS.IODIRA, 2, inputPinBitmask);
+    return this._writePorts(MCP23017_REGISTERS.IODIRA, inputPinBitmask);
   }
 
   protected _writeInterruptControl(interruptBitmask: number) : Promise<void> {
-    return this._writeChipRegister(MCP23017_REGISTERS.GPINTENA, 2, interruptBitmask);
+    return this._writePorts(MCP23017_REGISTERS.GPINTENA, interruptBitmask);
+  }
+
+  protected _writePullUp (pullUpBitmask: number) : Promise<void> {
+    return this._writePorts(MCP23017_REGISTERS.GPPUA, pullUpBitmask);
+  }
+
+  protected async _writeInterruptCompare (compareBitmask: number, defaultValue: number) : Promise<void> {
+    // Write the default values first to avoid interrupts from an intermediate configuration.
+    await this._writePorts(MCP23017_REGISTERS.DEFVALA, defaultValue);
+    await this._writePorts(MCP23017_REGISTERS.INTCONA, compareBitmask);
+  }
+
+  /**
+   * Enable the interrupt detection on the specified GPIO pin or interrupt source.
+   * If a second GPIO pin or interrupt source is given, INTA is used for port A and INTB for port B
+   * and an interrupt only reads the registers of the affected port. This requires the `interruptMirror` option to be false.
+   * @param {number|InterruptSource} gpioPinOrSource  BCM number of the pin or InterruptSource for INTA, or for both ports if used alone.
+   * @param {number|InterruptSource} gpioPinOrSourceB (optional) BCM number of the pin or InterruptSource for INTB.
+   * @return {Promise}          Promise which gets resolved when complete, or rejected in case of an error.
+   */
+  public async enableInterrupt (gpioPinOrSource: number | IOExpander.InterruptSource, gpioPinOrSourceB?: number | IOExpander.InterruptSource): Promise<void> {
+    if (gpioPinOrSourceB === undefined) {
+      return super.enableInterrupt(gpioPinOrSource);
+    }
+    if (this._ioconFlags & MCP23017_IOCON_FLAGS.INT_MIRROR_ON) {
+      throw new Error('Separate interrupt lines require the interruptMirror option to be false.');
+    }
+    return this._enableInterruptLines([gpioPinOrSource, gpioPinOrSourceB]);
+  }
+
+  protected async _readInterruptCapture (line?: number) : Promise<IOExpander.InterruptCapture> {
+    if (line !== undefined) {
+      // Only read the registers of the port of the interrupt line. Line 0 is INTA for port A, line 1 is INTB for port B.
+      // Separate lines are only used without mirrored interrupts, so the IC uses BANK=1.
+      const shift = 8 * line;
+      const capture = await this._readPortInterruptCapture(line);
+      return { flags: capture.flags << shift, captured: capture.captured << shift, state: capture.state << shift, pins: 0xFF << shift };
+    }
+    if (this._ioconFlags & MCP23017_IOCON_FLAGS.ADDR_BANK_1) {
+      const captureA = await this._readPortInterruptCapture(0);
+      const captureB = await this._readPortInterruptCapture(1);
+      return {
+        flags: captureA.flags | (captureB.flags << 8),
+        captured: captureA.captured | (captureB.captured << 8),
+        state: captureA.state | (captureB.state << 8)
+      };
+    }
+    if (this._ioconFlags & MCP23017_IOCON_FLAGS.SEQ_OP_DISABLE) {
+      // Without sequential operation the address pointer only toggles between the A and B register.
+      // INTF and INTCAP keep their values until the interrupt is cleared by reading INTCAP.
+      const flags = await this._readChipRegister(MCP23017_REGISTERS.INTFA, 2);
+      const captured = await this._readChipRegister(MCP23017_REGISTERS.INTCAPA, 2);
+      const state = await this._readChipRegister(MCP23017_REGISTERS.GPIOA, 2);
+      return { flags, captured, state };
+    }
+    // INTF, INTCAP and GPIO of both ports are consecutive registers, so read them in one burst.
+    const data = await this._readChipBlock(MCP23017_REGISTERS.INTFA, 6);
+    return {
+      flags: data[0] | (data[1] << 8),
+      captured: data[2] | (data[3] << 8),
+      state: data[4] | (data[5] << 8)
+    };
+  }
+
+  /**
+   * Internal function to read INTF, INTCAP and GPIO of one port in BANK=1.
+   * @param  {number}  port The port. 0 = A, 1 = B
+   * @return {Promise} Promise which gets resolved with the 8 bit values of the port.
+   */
+  private async _readPortInterruptCapture (port: number) : Promise<IOExpander.InterruptCapture> {
+    const register = bank1Register(MCP23017_REGISTERS.INTFA + port);
+    if (this._ioconFlags & MCP23017_IOCON_FLAGS.SEQ_OP_DISABLE) {
+      // Without sequential operation the address pointer does not increment in BANK=1.
+      // INTF and INTCAP keep their values until the interrupt is cleared by reading INTCAP.
+      const flags = await this._readChipRegister(register, 1);
+      const captured = await this._readChipRegister(register + 1, 1);
+      const state = await this._readChipRegister(register + 2, 1);
+      return { flags, captured, state };
+    }
+    // INTF, INTCAP and GPIO of a port are consecutive registers in BANK=1, so read them in one burst.
+    const data = await this._readChipBlock(register, 3);
+    return { flags: data[0], captured: data[1], state: data[2] };
+  }
+
+  /**
+   * Internal function to read a register of both ports.
+   * In BANK=0 the registers of port A and B are read with one transfer, in BANK=1 with one transfer per port.
+   * So in BANK=1 the value is no consistent snapshot of both ports.
+   * @param  {number}  register The register of port A in BANK=0.
+   * @return {Promise} Promise which gets resolved with the 16 bit value.
+   */
+  private async _readPorts (register: MCP23017_REGISTERS) : Promise<number> {
+    if (!(this._ioconFlags & MCP23017_IOCON_FLAGS.ADDR_BANK_1)) {
+      return this._readChipRegister(register, 2);
+    }
+    const valueA = await this._readChipRegister(bank1Register(register), 1);
+    const valueB = await this._readChipRegister(bank1Register(register + 1), 1);
+    return valueA | (valueB << 8);
+  }
+
+  /**
+   * Internal function to write a register of both ports.
+   * In BANK=0 the registers of port A and B are written with one transfer, in BANK=1 with one transfer per port.
+   * So in BANK=1 the ports do not change at the same time.
+   * @param  {number}  register The register of port A in BANK=0.
+   * @param  {number}  value    The 16 bit value.
+   * @return {Promise}
+   */
+  private async _writePorts (register: MCP23017_REGISTERS, value: number) : Promise<void> {
+    if (!(this._ioconFlags & MCP23017_IOCON_FLAGS.ADDR_BANK_1)) {
+      return this._writeChipRegister(register, 2, value);
+    }
+    await this._writeChipRegister(bank1Register(register), 1, value & 0xFF);
+    await this._writeChipRegister(bank1Register(register + 1), 1, (value >> 8) & 0xFF);
   }
 }
 
@@ -199,6 +409,12 @@ export namespace MCP23017A {
    * @type {Object}
    */
   export type InputData = IOExpander.InputData<PinNumber>;
+
+  /**
+   * Options for the configuration register (IOCON) of the IC.
+   * Interrupts are never mirrored.
+   */
+  export type Options = Omit<MCP23017.Options, 'interruptMirror'>;
 }
 
 /**
@@ -209,35 +425,47 @@ export class MCP23017A extends IOExpander<IOExpander.PinNumber8> {
   /** Number of pins the IC has that are to be exposed PortA has 8 pins and PortB has 8 pins. */
   protected _pins = <const>8;
 
+  /** Port A of the IC. */
+  protected _icPinBitmask = 0x00FF;
+
+  /** Flags written to the configuration register (IOCON). */
+  protected _ioconFlags: number;
+
   /**
    * Constructor for a new MCP23017 instance for pins on Port A.
    * If you use this IC with one or more input pins, you have to call ...
    *  a) enableInterrupt(gpioPin) to detect interrupts from the IC using a GPIO pin, or
    *  b) doPoll() frequently enough to detect input changes with manually polling.
-   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus.
+   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus, or a transport for other buses.
    * @param  {number}         address      The address of the MCP23017 IC.
+   * @param  {Options}        options      (optional) Configuration of the IC. By default, interrupts are open-drain and active low.
    */
-  constructor (i2cBus: I2CBus, address: number) {
-    super(i2cBus, address);
+  constructor (i2cBus: I2CBus | IOExpander.Transport, address: number, options?: MCP23017A.Options) {
+    super(i2cBus, address, options);
+    this._ioconFlags = ioconFlagsFromOptions(Object.assign({}, options, { interruptMirror: false }), false);
+    this._interruptActiveHigh = (this._ioconFlags & MCP23017_IOCON_FLAGS.INT_POLARITY_HIGH) !== 0;
   }
 
   protected async _initializeChip (initialHardwareState: number) : Promise<void> {
-    // On startup, Default chip config to use Bank 0 with Open-Drain (Active Low) interrupts
-    const ioconFlags =
-      MCP23017_IOCON_FLAGS.DEFAULT |
-      MCP23017_IOCON_FLAGS.INT_OPEN_DRAIN_ENABLED;
-
-    await this._writeChipRegister(MCP23017_REGISTERS.IOCONA, 1, ioconFlags);
+    if (!this._isSharedRegisterUsed(MCP23017_REGISTERS.IOCONA)) {
+      // The IC may still use BANK=1, e.g. configured by a previous run. Reset IOCON at its BANK=1 address to switch to BANK=0.
+      // In BANK=0 this address is GPINTENB, which is not used by another instance.
+      await this._writeChipRegister(bank1Register(MCP23017_REGISTERS.IOCONA), 1, 0x00);
+    }
+    // On startup, configure the chip to use Bank 0 and the requested interrupt output.
+    // IOCON is shared by both ports, so coordinate the write with other instances addressing this IC.
+    await this._writeSharedRegister(MCP23017_REGISTERS.IOCONA, this._ioconFlags);
     // Disable all interrupts.
     await this._writeChipRegister(MCP23017_REGISTERS.GPINTENA, 1, 0x00);
     // Set pins marked as input.
     await this._writeChipRegister(MCP23017_REGISTERS.IODIRA, 1, this._inputPinBitmask);
-    // Force all pins to Pull-Up.
-    await this._writeChipRegister(MCP23017_REGISTERS.GPPUA, 1, 0xFF);
+    // Set the pull-up resistors, all enabled by default.
+    await this._writeChipRegister(MCP23017_REGISTERS.GPPUA, 1, this._pullUpBitmask);
     // Force no Polarity Invert as we will manage this in software with the _inverted bitField.
     await this._writeChipRegister(MCP23017_REGISTERS.IPOLA, 1, 0x00);
-    // Set interrupt change default values to 0.
+    // Use interrupt-on-change for all pins with compare default values of 0.
     await this._writeChipRegister(MCP23017_REGISTERS.INTCONA, 1, 0x00);
+    await this._writeChipRegister(MCP23017_REGISTERS.DEFVALA, 1, 0x00);
     // Write the initial state which should have no effect as all ports set as input (IODIRA) but ensures output register is set appropriately.
     await this._writeChipRegister(MCP23017_REGISTERS.OLATA, 1, initialHardwareState);
   }
@@ -257,6 +485,25 @@ export class MCP23017A extends IOExpander<IOExpander.PinNumber8> {
   protected _writeInterruptControl(interruptBitmask: number) : Promise<void> {
     return this._writeChipRegister(MCP23017_REGISTERS.GPINTENA, 1, interruptBitmask);
   }
+
+  protected _writePullUp (pullUpBitmask: number) : Promise<void> {
+    return this._writeChipRegister(MCP23017_REGISTERS.GPPUA, 1, pullUpBitmask);
+  }
+
+  protected async _writeInterruptCompare (compareBitmask: number, defaultValue: number) : Promise<void> {
+    // Write the default values first to avoid interrupts from an intermediate configuration.
+    await this._writeChipRegister(MCP23017_REGISTERS.DEFVALA, 1, defaultValue);
+    await this._writeChipRegister(MCP23017_REGISTERS.INTCONA, 1, compareBitmask);
+  }
+
+  protected async _readInterruptCapture () : Promise<IOExpander.InterruptCapture> {
+    // The registers of port A and B are interleaved, so read INTF, INTCAP and GPIO of port A one by one.
+    // INTF and INTCAP keep their values until the interrupt is cleared by reading INTCAP.
+    const flags = await this._readChipRegister(MCP23017_REGISTERS.INTFA, 1);
+    const captured = await this._readChipRegister(MCP23017_REGISTERS.INTCAPA, 1);
+    const state = await this._readChipRegister(MCP23017_REGISTERS.GPIOA, 1);
+    return { flags, captured, state };
+  }
 }
 
 /**
@@ -280,6 +527,12 @@ export namespace MCP23017B {
    * @type {Object}
    */
   export type InputData = IOExpander.InputData<PinNumber>;
+
+  /**
+   * Options for the configuration register (IOCON) of the IC.
+   * Interrupts are never mirrored.
+   */
+  export type Options = Omit<MCP23017.Options, 'interruptMirror'>;
 }
 
 /**
@@ -290,35 +543,48 @@ export class MCP23017B extends IOExpander<IOExpander.PinNumber8> {
   /** Number of pins the IC has that are to be exposed PortA has 8 pins and PortB has 8 pins. */
   protected _pins = <const>8;
 
+  /** Port B of the IC. */
+  protected _icPinBitmask = 0xFF00;
+
+  /** Flags written to the configuration register (IOCON). */
+  protected _ioconFlags: number;
+
   /**
    * Constructor for a new MCP23017 instance for pins on Port B.
    * If you use this IC with one or more input pins, you have to call ...
    *  a) enableInterrupt(gpioPin) to detect interrupts from the IC using a GPIO pin, or
    *  b) doPoll() frequently enough to detect input changes with manually polling.
-   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus.
+   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus, or a transport for other buses.
    * @param  {number}         address      The address of the MCP23017 IC.
+   * @param  {Options}        options      (optional) Configuration of the IC. By default, interrupts are open-drain and active low.
    */
-  constructor (i2cBus: I2CBus, address: number) {
-    super(i2cBus, address);
+  constructor (i2cBus: I2CBus | IOExpander.Transport, address: number, options?: MCP23017B.Options) {
+    super(i2cBus, address, options);
+    this._ioconFlags = ioconFlagsFromOptions(Object.assign({}, options, { interruptMirror: false }), false);
+    this._interruptActiveHigh = (this._ioconFlags & MCP23017_IOCON_FLAGS.INT_POLARITY_HIGH) !== 0;
   }
 
   protected async _initializeChip (initialHardwareState: number) : Promise<void> {
-    // On startup, Default chip config to use Bank 0 with Open-Drain (Active Low) interrupts
-    const ioconFlags =
-      MCP23017_IOCON_FLAGS.DEFAULT |
-      MCP23017_IOCON_FLAGS.INT_OPEN_DRAIN_ENABLED;
-
-    await this._writeChipRegister(MCP23017_REGISTERS.IOCONB, 1, ioconFlags);
+    if (!this._isSharedRegisterUsed(MCP23017_REGISTERS.IOCONA)) {
+      // The IC may still use BANK=1, e.g. configured by a previous run. Reset IOCON at its BANK=1 address to switch to BANK=0.
+      // In BANK=0 this address is GPINTENB, which is cleared below anyway.
+      await this._writeChipRegister(bank1Register(MCP23017_REGISTERS.IOCONA), 1, 0x00);
+    }
+    // On startup, configure the chip to use Bank 0 and the requested interrupt output.
+    // IOCON is shared by both ports, so coordinate the write with other instances addressing this IC.
+    // IOCONA and IOCONB are the same register, so IOCONA is used by all instances.
+    await this._writeSharedRegister(MCP23017_REGISTERS.IOCONA, this._ioconFlags);
     // Disable all interrupts.
     await this._writeChipRegister(MCP23017_REGISTERS.GPINTENB, 1, 0x00);
     // Set pins marked as input.
     await this._writeChipRegister(MCP23017_REGISTERS.IODIRB, 1, this._inputPinBitmask);
-    // Force all pins to Pull-Up.
-    await this._writeChipRegister(MCP23017_REGISTERS.GPPUB, 1, 0xFF);
+    // Set the pull-up resistors, all enabled by default.
+    await this._writeChipRegister(MCP23017_REGISTERS.GPPUB, 1, this._pullUpBitmask);
     // Force no Polarity Invert as we will manage this in software with the _inverted bitField.
     await this._writeChipRegister(MCP23017_REGISTERS.IPOLB, 1, 0x00);
-    // Set interrupt change default values to 0.
+    // Use interrupt-on-change for all pins with compare default values of 0.
     await this._writeChipRegister(MCP23017_REGISTERS.INTCONB, 1, 0x00);
+    await this._writeChipRegister(MCP23017_REGISTERS.DEFVALB, 1, 0x00);
     // Write the initial state which should have no effect as all ports set as input (IODIRA) but ensures output register is set appropriately.
     await this._writeChipRegister(MCP23017_REGISTERS.OLATB, 1, initialHardwareState);
   }
@@ -338,4 +604,23 @@ export class MCP23017B extends IOExpander<IOExpander.PinNumber8> {
   protected _writeInterruptControl(interruptBitmask: number) : Promise<void> {
     return this._writeChipRegister(MCP23017_REGISTERS.GPINTENB, 1, interruptBitmask);
   }
+
+  protected _writePullUp (pullUpBitmask: number) : Promise<void> {
+    return this._writeChipRegister(MCP23017_REGISTERS.GPPUB, 1, pullUpBitmask);
+  }
+
+  protected async _writeInterruptCompare (compareBitmask: number, defaultValue: number) : Promise<void> {
+    // Write the default values first to avoid interrupts from an intermediate configuration.
+    await this._writeChipRegister(MCP23017_REGISTERS.DEFVALB, 1, defaultValue);
+    await this._writeChipRegister(MCP23017_REGISTERS.INTCONB, 1, compareBitmask);
+  }
+
+  protected async _readInterruptCapture () : Promise<IOExpander.InterruptCapture> {
+    // The registers of port A and B are interleaved, so read INTF, INTCAP and GPIO of port B one by one.
+    // INTF and INTCAP keep their values until the interrupt is cleared by reading INTCAP.
+    const flags = await this._readChipRegister(MCP23017_REGISTERS.INTFB, 1);
+    const captured = await this._readChipRegister(MCP23017_REGISTERS.INTCAPB, 1);
+    const state = await this._readChipRegister(MCP23017_REGISTERS.GPIOB, 1);
+    return { flags, captured, state };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,186 @@
+/*
+ * Node.js MCP23018
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * Node.js module for controlling each pin of a MCP23018 I2C port expander IC.
+ * This IC has the registers of the MCP23017, but open-drain outputs.
+ */
+import { I2CBus } from 'i2c-bus';
+
+import { IOExpander } from './ioExpander';
+import { MCP23017, MCP23017A, MCP23017B } from './mcp23017';
+
+/**
+ * Check the address of a MCP23018 IC.
+ * The voltage at the analog ADDR pin selects an address from 0x20 to 0x27.
+ * @param  {number} address The address of the IC.
+ * @return {number} The address.
+ */
+function checkAddress (address: number): number {
+  if (address < 0x20 || address > 0x27) {
+    throw new Error('Address out of range.');
+  }
+  return address;
+}
+
+/**
+ * Remove the options the MCP23018 does not support from the options of a MCP23017.
+ * The MCP23018 has no slew rate control of the SDA output.
+ * @param  {Object} options The options.
+ * @return {Object} The supported options.
+ */
+function supportedOptions<T extends MCP23018.Options> (options: T | undefined): T {
+  return Object.assign({}, options, { sdaSlewRateDisabled: false });
+}
+
+/**
+ * Namespace for types for MCP23018
+ */
+export namespace MCP23018 {
+  /**
+   * A pin number from 0 to 15
+   * @type {number}
+   */
+  export type PinNumber = IOExpander.PinNumber16;
+
+  /**
+   * Possible pin directions.
+   * 0 = out, 1 = in, -1 = undefined
+   */
+  export type PinDirection = IOExpander.PinDirection;
+
+  /**
+   * Data of an 'input' event
+   * @type {Object}
+   */
+  export type InputData = IOExpander.InputData<PinNumber>;
+
+  /**
+   * Options for the configuration register (IOCON) of the IC and the instance.
+   * The MCP23018 has no slew rate control of the SDA output.
+   */
+  export type Options = Omit<MCP23017.Options, 'sdaSlewRateDisabled'>;
+}
+
+/**
+ * Class for handling a MCP23018 IC.
+ *
+ * The outputs are open-drain. Setting an output low drives the pin low, setting it high releases the pin.
+ * A released pin needs an external pull-up resistor to get a high level, as the internal pull-ups only apply to inputs.
+ */
+export class MCP23018 extends MCP23017 {
+
+  /**
+   * Constructor for a new MCP23018 instance.
+   * If you use this IC with one or more input pins, you have to call ...
+   *  a) enableInterrupt(gpioPin) to detect interrupts from the IC using a GPIO pin, or
+   *  b) doPoll() frequently enough to detect input changes with manually polling.
+   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus, or a transport for other buses.
+   * @param  {number}         address      The address of the MCP23018 IC, selected by the voltage at the ADDR pin. (0x20 to 0x27)
+   * @param  {Options}        options      (optional) Configuration of the IC. By default, interrupts are mirrored, open-drain and active low.
+   */
+  constructor (i2cBus: I2CBus | IOExpander.Transport, address: number, options?: MCP23018.Options) {
+    super(i2cBus, checkAddress(address), supportedOptions(options));
+  }
+}
+
+/**
+ * Namespace for types for MCP23018A
+ */
+export namespace MCP23018A {
+  /**
+   * A pin number from 0 to 7
+   * @type {number}
+   */
+  export type PinNumber = IOExpander.PinNumber8;
+
+  /**
+   * Possible pin directions.
+   * 0 = out, 1 = in, -1 = undefined
+   */
+  export type PinDirection = IOExpander.PinDirection;
+
+  /**
+   * Data of an 'input' event
+   * @type {Object}
+   */
+  export type InputData = IOExpander.InputData<PinNumber>;
+
+  /**
+   * Options for the configuration register (IOCON) of the IC.
+   * Interrupts are never mirrored.
+   */
+  export type Options = Omit<MCP23018.Options, 'interruptMirror'>;
+}
+
+/**
+ * Class for handling a MCP23018 IC for Port A.
+ *
+ * The outputs are open-drain, see `MCP23018`.
+ */
+export class MCP23018A extends MCP23017A {
+
+  /**
+   * Constructor for a new MCP23018 instance for pins on Port A.
+   * If you use this IC with one or more input pins, you have to call ...
+   *  a) enableInterrupt(gpioPin) to detect interrupts from the IC using a GPIO pin, or
+   *  b) doPoll() frequently enough to detect input changes with manually polling.
+   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus, or a transport for other buses.
+   * @param  {number}         address      The address of the MCP23018 IC, selected by the voltage at the ADDR pin. (0x20 to 0x27)
+   * @param  {Options}        options      (optional) Configuration of the IC. By default, interrupts are open-drain and active low.
+   */
+  constructor (i2cBus: I2CBus | IOExpander.Transport, address: number, options?: MCP23018A.Options) {
+    super(i2cBus, checkAddress(address), supportedOptions(options));
+  }
+}
+
+/**
+ * Namespace for types for MCP23018B
+ */
+export namespace MCP23018B {
+  /**
+   * A pin number from 0 to 7
+   * @type {number}
+   */
+  export type PinNumber = IOExpander.PinNumber8;
+
+  /**
+   * Possible pin directions.
+   * 0 = out, 1 = in, -1 = undefined
+   */
+  export type PinDirection = IOExpander.PinDirection;
+
+  /**
+   * Data of an 'input' event
+   * @type {Object}
+   */
+  export type InputData = IOExpander.InputData<PinNumber>;
+
+  /**
+   * Options for the configuration register (IOCON) of the IC.
+   * Interrupts are never mirrored.
+   */
+  export type Options = Omit<MCP23018.Options, 'interruptMirror'>;
+}
+
+/**
+ * Class for handling a MCP23018 IC for Port B.
+ *
+ * The outputs are open-drain, see `MCP23018`.
+ */
+export class MCP23018B extends MCP23017B {
+
+  /**
+   * Constructor for a new MCP23018 instance for pins on Port B.
+   * If you use this IC with one or more input pins, you have to call ...
+   *  a) enableInterrupt(gpioPin) to detect interrupts from the IC using a GPIO pin, or
+   *  b) doPoll() frequently enough to detect input changes with manually polling.
+   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus, or a transport for other buses.
+   * @param  {number}         address      The address of the MCP23018 IC, selected by the voltage at the ADDR pin. (0x20 to 0x27)
+   * @param  {Options}        options      (optional) Configuration of the IC. By default, interrupts are open-drain and active low.
+   */
+  constructor (i2cBus: I2CBus | IOExpander.Transport, address: number, options?: MCP23018B.Options) {
+    super(i2cBus, checkAddress(address), supportedOptions(options));
+  }
+}
@@ -0,0 +1,80 @@
+/*
+ * Node.js MCP23S08
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * Node.js module for controlling each pin of a MCP23S08 SPI port expander IC.
+ * This IC is the SPI variant of the MCP23008.
+ */
+import { IOExpander } from './ioExpander';
+import { MCP23008, MCP23008_IOCON_FLAGS, MCP23008_REGISTERS } from './mcp23008';
+import { SpiTransport } from './transports';
+
+/**
+ * Namespace for types for MCP23S08
+ */
+export namespace MCP23S08 {
+  /**
+   * A pin number from 0 to 7
+   * @type {number}
+   */
+  export type PinNumber = IOExpander.PinNumber8;
+
+  /**
+   * Possible pin directions.
+   * 0 = out, 1 = in, -1 = undefined
+   */
+  export type PinDirection = IOExpander.PinDirection;
+
+  /**
+   * Data of an 'input' event
+   * @type {Object}
+   */
+  export type InputData = IOExpander.InputData<PinNumber>;
+
+  /**
+   * Options for the configuration register (IOCON) of the IC, the instance and the SPI transfers.
+   */
+  export type Options = MCP23008.Options & SpiTransport.Options;
+}
+
+/**
+ * Class for handling a MCP23S08 IC.
+ *
+ * Up to four ICs can share one chip-select, each with its own hardware address set by the pins A0 and A1.
+ * Hardware addressing (HAEN) is always enabled. The IC with the hardware address 0 responds to this address either way.
+ */
+export class MCP23S08 extends MCP23008 {
+
+  /**
+   * Constructor for a new MCP23S08 instance.
+   * If you use this IC with one or more input pins, you have to call ...
+   *  a) enableInterrupt(gpioPin) to detect interrupts from the IC using a GPIO pin, or
+   *  b) doPoll() frequently enough to detect input changes with manually polling.
+   * @param  {Device}         spiDevice    The opened SPI device, e.g. from the spi-device package.
+   * @param  {number}         address      The hardware address of the MCP23S08 IC. (0 to 3)
+   * @param  {Options}        options      (optional) Configuration of the IC. By default, interrupts are open-drain and active low.
+   */
+  constructor (spiDevice: SpiTransport.Device, address: number, options?: MCP23S08.Options) {
+    if (address < 0 || address > 3) {
+      throw new Error('Address out of range.');
+    }
+    super(new SpiTransport(spiDevice, options), address, options);
+    this._ioconFlags |= MCP23008_IOCON_FLAGS.MCP23S08_HW_ADDR_ENABLED;
+  }
+
+  protected async _initializeChip (initialHardwareState: number) : Promise<void> {
+    if (this._address !== 0) {
+      // Without hardware addressing, an IC only responds to the hardware address 0.
+      // So enable it on all ICs on this chip-select which do not use it yet, before the IC is addressed.
+      // The IC with the hardware address 0 receives this write as well, so only HAEN may change its configuration.
+      await this._runOnSharedDevice(0, async (registers) => {
+        const shared = registers[MCP23008_REGISTERS.IOCON];
+        // If the IC is used by an instance, its recorded configuration includes HAEN. Otherwise keep its unknown configuration.
+        const iocon = shared ? shared.value : (await this._runOnBus(() => this._transport.readRegister(0, MCP23008_REGISTERS.IOCON, 1)))[0];
+        await this._runOnBus(() => this._transport.writeRegister(0, MCP23008_REGISTERS.IOCON, Buffer.from([iocon | MCP23008_IOCON_FLAGS.MCP23S08_HW_ADDR_ENABLED])));
+      });
+    }
+    await super._initializeChip(initialHardwareState);
+  }
+}
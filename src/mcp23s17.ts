@@ -0,0 +1,118 @@
+/*
+ * Node.js MCP23S17
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * Node.js module for controlling each pin of a MCP23S17 SPI port expander IC.
+ * This IC is the SPI variant of the MCP23017.
+ */
+import { IOExpander } from './ioExpander';
+import { bank1Register, MCP23017, MCP23017_IOCON_FLAGS, MCP23017_REGISTERS } from './mcp23017';
+import { SpiTransport } from './transports';
+
+/**
+ * Namespace for types for MCP23S17
+ */
+export namespace MCP23S17 {
+  /**
+   * A pin number from 0 to 15
+   * @type {number}
+   */
+  export type PinNumber = IOExpander.PinNumber16;
+
+  /**
+   * Possible pin directions.
+   * 0 = out, 1 = in, -1 = undefined
+   */
+  export type PinDirection = IOExpander.PinDirection;
+
+  /**
+   * Data of an 'input' event
+   * @type {Object}
+   */
+  export type InputData = IOExpander.InputData<PinNumber>;
+
+  /**
+   * Options for the configuration register (IOCON) of the IC, the instance and the SPI transfers.
+   */
+  export type Options = MCP23017.Options & SpiTransport.Options;
+}
+
+/**
+ * Class for handling a MCP23S17 IC.
+ *
+ * Up to eight ICs can share one chip-select, each with its own hardware address set by the pins A0 to A2.
+ * Hardware addressing (HAEN) is always enabled. The IC with the hardware address 0 responds to this address either way.
+ */
+export class MCP23S17 extends MCP23017 {
+
+  /**
+   * Constructor for a new MCP23S17 instance.
+   * If you use this IC with one or more input pins, you have to call ...
+   *  a) enableInterrupt(gpioPin) to detect interrupts from the IC using a GPIO pin, or
+   *  b) doPoll() frequently enough to detect input changes with manually polling.
+   * @param  {Device}         spiDevice    The opened SPI device, e.g. from the spi-device package.
+   * @param  {number}         address      The hardware address of the MCP23S17 IC. (0 to 7)
+   * @param  {Options}        options      (optional) Configuration of the IC. By default, interrupts are mirrored, open-drain and active low.
+   */
+  constructor (spiDevice: SpiTransport.Device, address: number, options?: MCP23S17.Options) {
+    if (address < 0 || address > 7) {
+      throw new Error('Address out of range.');
+    }
+    super(new SpiTransport(spiDevice, options), address, options);
+    this._ioconFlags |= MCP23017_IOCON_FLAGS.MCP23S17_HW_ADDR_ENABLED;
+  }
+
+  protected async _initializeChip (initialHardwareState: number) : Promise<void> {
+    if (this._address !== 0) {
+      // Without hardware addressing, an IC only responds to the hardware address 0.
+      // So enable it on all ICs on this chip-select which do not use it yet, before the IC is addressed.
+      // The IC with the hardware address 0 receives this write as well, so only HAEN may change its configuration.
+      await this._runOnSharedDevice(0, async (registers) => {
+        const shared = registers[MCP23017_REGISTERS.IOCONA];
+        if (shared) {
+          // The IC is used by an instance, so write its recorded configuration which includes HAEN.
+          const register = (shared.value & MCP23017_IOCON_FLAGS.ADDR_BANK_1) ? bank1Register(MCP23017_REGISTERS.IOCONA) : MCP23017_REGISTERS.IOCONA;
+          await this._runOnBus(() => this._transport.writeRegister(0, register, Buffer.from([shared.value])));
+          return;
+        }
+        // Otherwise keep the unknown configuration of the IC, so find IOCON first.
+        const [register, iocon] = await this._findUnknownIocon();
+        if (!(iocon & MCP23017_IOCON_FLAGS.MCP23S17_HW_ADDR_ENABLED)) {
+          await this._runOnBus(() => this._transport.writeRegister(0, register, Buffer.from([iocon | MCP23017_IOCON_FLAGS.MCP23S17_HW_ADDR_ENABLED])));
+        }
+      });
+    }
+    await super._initializeChip(initialHardwareState);
+  }
+
+  /**
+   * Find the address of IOCON of the IC with the hardware address 0, which is not used by an instance.
+   * IOCON is readable at the addresses of both ports, so both addresses read the same value.
+   * BANK=1 is checked first, because in BANK=1 the BANK=0 addresses of IOCON are OLATA and an unimplemented register,
+   * which both read 0 after power on.
+   * @return {Promise} Promise which gets resolved with the address and the value of IOCON, or rejected if the register bank is unknown.
+   */
+  private async _findUnknownIocon () : Promise<[number, number]> {
+    const bank1Iocon = await this._readUnknownRegister(bank1Register(MCP23017_REGISTERS.IOCONA));
+    if ((bank1Iocon & MCP23017_IOCON_FLAGS.ADDR_BANK_1) && bank1Iocon === await this._readUnknownRegister(bank1Register(MCP23017_REGISTERS.IOCONB))) {
+      return [bank1Register(MCP23017_REGISTERS.IOCONA), bank1Iocon];
+    }
+    const iocon = await this._readUnknownRegister(MCP23017_REGISTERS.IOCONA);
+    if (!(iocon & MCP23017_IOCON_FLAGS.ADDR_BANK_1) && iocon === await this._readUnknownRegister(MCP23017_REGISTERS.IOCONB)) {
+      return [MCP23017_REGISTERS.IOCONA, iocon];
+    }
+    throw new Error('The register bank of the IC with the hardware address 0 is unknown. Initialize an instance for this IC first.');
+  }
+
+  /**
+   * Read a register of the IC with the hardware address 0 in a separate transfer.
+   * Sequential reads are not used, because the unknown configuration may disable the address increment.
+   * @param  {number}  register The address of the register.
+   * @return {Promise} Promise which gets resolved with the 8 bit value, or rejected in case of an error.
+   */
+  private async _readUnknownRegister (register: number) : Promise<number> {
+    const data = await this._runOnBus(() => this._transport.readRegister(0, register, 1));
+    return data[0];
+  }
+}
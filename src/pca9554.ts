@@ -0,0 +1,101 @@
+/*
+ * Node.js PCA9554
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * Node.js module for controlling each pin of a PCA9554 I2C port expander IC.
+ */
+import { I2CBus } from 'i2c-bus';
+
+import { IOExpander } from './ioExpander';
+
+// By annotating an enum option, you set the value;
+// increments continue from that value:
+
+enum PCA9554_REGISTERS {
+  // The Input register is used to read data from the port.
+  INPUT_PORT = 0x00,
+  // The Output register is used to write data to the port.
+  OUTPUT_PORT = 0x01,
+  // The Polarity Inversion register is not used except to write 0's.  Internally we use the _inverted bitmask to control pin state inversion.
+  POL_INV = 0x02,
+  // The Config register is used to specify a pin as input (1 bit-value) or output (0 bit-value).
+  CON_PORT = 0x03
+}
+
+/**
+ * Namespace for types for PCA9554
+ */
+export namespace PCA9554 {
+  /**
+   * A pin number from 0 to 7
+   * @type {number}
+   */
+  export type PinNumber = IOExpander.PinNumber8;
+
+  /**
+   * Possible pin directions.
+   * 0 = out, 1 = in, -1 = undefined
+   */
+  export type PinDirection = IOExpander.PinDirection;
+
+  /**
+   * Data of an 'input' event
+   * @type {Object}
+   */
+  export type InputData = IOExpander.InputData<PinNumber>;
+
+  /**
+   * Options for the instance.
+   */
+  export type Options = IOExpander.Options;
+}
+
+/**
+ * Class for handling a PCA9554 or PCA9554A IC.
+ *
+ * At power on, all pins are inputs with the output register set high and no polarity inversion.
+ * The inputs have internal 100 kΩ pull-up resistors.
+ */
+export class PCA9554 extends IOExpander<IOExpander.PinNumber8> {
+
+  /** Number of pins the IC has. */
+  protected _pins = <const>8;
+
+  /**
+   * Constructor for a new PCA9554 instance.
+   * If you use this IC with one or more input pins, you have to call ...
+   *  a) enableInterrupt(gpioPin) to detect interrupts from the IC using a GPIO pin, or
+   *  b) doPoll() frequently enough to detect input changes with manually polling.
+   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus, or a transport for other buses.
+   * @param  {number}         address      The address of the PCA9554 IC. (0x20 to 0x27, or 0x38 to 0x3F for the PCA9554A)
+   * @param  {Options}        options      (optional) Options for the instance, e.g. a bus arbiter.
+   */
+  constructor (i2cBus: I2CBus | IOExpander.Transport, address: number, options?: PCA9554.Options) {
+    if ((address < 0x20 || address > 0x27) && (address < 0x38 || address > 0x3F)) {
+      throw new Error('Address out of range.');
+    }
+    super(i2cBus, address, options);
+  }
+
+  protected async _initializeChip (initialHardwareState: number) : Promise<void> {
+    // On startup, Force no Polarity Invert as we will manage this in software with the _inverted bitField.
+    await this._writeChipRegister(PCA9554_REGISTERS.POL_INV, 1, 0x00);
+    // Set pins marked as input.
+    await this._writeChipRegister(PCA9554_REGISTERS.CON_PORT, 1, this._inputPinBitmask);
+    // Write the initial state which should have no effect as all ports set as input but ensures output register is set appropriately.
+    await this._writeChipRegister(PCA9554_REGISTERS.OUTPUT_PORT, 1, initialHardwareState);
+  }
+
+  protected _readState () : Promise<number> {
+    return this._readChipRegister(PCA9554_REGISTERS.INPUT_PORT, 1);
+  }
+
+  protected _writeState (state: number) : Promise<void> {
+    return this._writeChipRegister(PCA9554_REGISTERS.OUTPUT_PORT, 1, state);
+  }
+
+  protected _writeDirection (inputPinBitmask: number) : Promise<void> {
+    return this._writeChipRegister(PCA9554_REGISTERS.CON_PORT, 1, inputPinBitmask);
+  }
+}
@@ -0,0 +1,174 @@
+/*
+ * Node.js PCA9555, TCA9555 and PCA9535
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * Node.js module for controlling each pin of a PCA9555, TCA9555 or PCA9535 I2C port expander IC.
+ * These ICs are register compatible with the CAT9555.
+ */
+import { I2CBus } from 'i2c-bus';
+
+import { CAT9555 } from './cat9555';
+import { IOExpander } from './ioExpander';
+
+/**
+ * Check the address of a PCA9555, TCA9555 or PCA9535 IC.
+ * The three address pins select an address from 0x20 to 0x27.
+ * @param  {number} address The address of the IC.
+ * @return {number} The address.
+ */
+function checkAddress (address: number): number {
+  if (address < 0x20 || address > 0x27) {
+    throw new Error('Address out of range.');
+  }
+  return address;
+}
+
+/**
+ * Namespace for types for PCA9555
+ */
+export namespace PCA9555 {
+  /**
+   * A pin number from 0 to 15
+   * @type {number}
+   */
+  export type PinNumber = IOExpander.PinNumber16;
+
+  /**
+   * Possible pin directions.
+   * 0 = out, 1 = in, -1 = undefined
+   */
+  export type PinDirection = IOExpander.PinDirection;
+
+  /**
+   * Data of an 'input' event
+   * @type {Object}
+   */
+  export type InputData = IOExpander.InputData<PinNumber>;
+
+  /**
+   * Options for the instance.
+   */
+  export type Options = CAT9555.Options;
+}
+
+/**
+ * Class for handling a PCA9555 IC.
+ *
+ * At power on, all pins are inputs with the output registers set high and no polarity inversion.
+ * The inputs have internal 100 kΩ pull-up resistors.
+ */
+export class PCA9555 extends CAT9555 {
+
+  /**
+   * Constructor for a new PCA9555 instance.
+   * If you use this IC with one or more input pins, you have to call ...
+   *  a) enableInterrupt(gpioPin) to detect interrupts from the IC using a GPIO pin, or
+   *  b) doPoll() frequently enough to detect input changes with manually polling.
+   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus, or a transport for other buses.
+   * @param  {number}         address      The address of the PCA9555 IC. (0x20 to 0x27)
+   * @param  {Options}        options      (optional) Options for the instance, e.g. a bus arbiter.
+   */
+  constructor (i2cBus: I2CBus | IOExpander.Transport, address: number, options?: PCA9555.Options) {
+    super(i2cBus, checkAddress(address), options);
+  }
+}
+
+/**
+ * Namespace for types for TCA9555
+ */
+export namespace TCA9555 {
+  /**
+   * A pin number from 0 to 15
+   * @type {number}
+   */
+  export type PinNumber = IOExpander.PinNumber16;
+
+  /**
+   * Possible pin directions.
+   * 0 = out, 1 = in, -1 = undefined
+   */
+  export type PinDirection = IOExpander.PinDirection;
+
+  /**
+   * Data of an 'input' event
+   * @type {Object}
+   */
+  export type InputData = IOExpander.InputData<PinNumber>;
+
+  /**
+   * Options for the instance.
+   */
+  export type Options = CAT9555.Options;
+}
+
+/**
+ * Class for handling a TCA9555 IC, the low voltage (1.65 V to 5.5 V) variant of the PCA9555.
+ *
+ * At power on, all pins are inputs with the output registers set high and no polarity inversion.
+ */
+export class TCA9555 extends CAT9555 {
+
+  /**
+   * Constructor for a new TCA9555 instance.
+   * If you use this IC with one or more input pins, you have to call ...
+   *  a) enableInterrupt(gpioPin) to detect interrupts from the IC using a GPIO pin, or
+   *  b) doPoll() frequently enough to detect input changes with manually polling.
+   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus, or a transport for other buses.
+   * @param  {number}         address      The address of the TCA9555 IC. (0x20 to 0x27)
+   * @param  {Options}        options      (optional) Options for the instance, e.g. a bus arbiter.
+   */
+  constructor (i2cBus: I2CBus | IOExpander.Transport, address: number, options?: TCA9555.Options) {
+    super(i2cBus, checkAddress(address), options);
+  }
+}
+
+/**
+ * Namespace for types for PCA9535
+ */
+export namespace PCA9535 {
+  /**
+   * A pin number from 0 to 15
+   * @type {number}
+   */
+  export type PinNumber = IOExpander.PinNumber16;
+
+  /**
+   * Possible pin directions.
+   * 0 = out, 1 = in, -1 = undefined
+   */
+  export type PinDirection = IOExpander.PinDirection;
+
+  /**
+   * Data of an 'input' event
+   * @type {Object}
+   */
+  export type InputData = IOExpander.InputData<PinNumber>;
+
+  /**
+   * Options for the instance.
+   */
+  export type Options = CAT9555.Options;
+}
+
+/**
+ * Class for handling a PCA9535 IC, the variant of the PCA9555 without pull-up resistors.
+ *
+ * At power on, all pins are inputs with the output registers set high and no polarity inversion.
+ * The inputs have no internal pull-up resistors, so unused or open inputs need external pull-up or pull-down resistors.
+ */
+export class PCA9535 extends CAT9555 {
+
+  /**
+   * Constructor for a new PCA9535 instance.
+   * If you use this IC with one or more input pins, you have to call ...
+   *  a) enableInterrupt(gpioPin) to detect interrupts from the IC using a GPIO pin, or
+   *  b) doPoll() frequently enough to detect input changes with manually polling.
+   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus, or a transport for other buses.
+   * @param  {number}         address      The address of the PCA9535 IC. (0x20 to 0x27)
+   * @param  {Options}        options      (optional) Options for the instance, e.g. a bus arbiter.
+   */
+  constructor (i2cBus: I2CBus | IOExpander.Transport, address: number, options?: PCA9535.Options) {
+    super(i2cBus, checkAddress(address), options);
+  }
+}
@@ -0,0 +1,106 @@
+/*
+ * Node.js PCA9557
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * Node.js module for controlling each pin of a PCA9557 I2C port expander IC.
+ */
+import { I2CBus } from 'i2c-bus';
+
+import { IOExpander } from './ioExpander';
+
+// By annotating an enum option, you set the value;
+// increments continue from that value:
+
+enum PCA9557_REGISTERS {
+  // The Input register is used to read data from the port.
+  INPUT_PORT = 0x00,
+  // The Output register is used to write data to the port.
+  OUTPUT_PORT = 0x01,
+  // The Polarity Inversion register is not used except to write 0's.  Internally we use the _inverted bitmask to control pin state inversion.
+  POL_INV = 0x02,
+  // The Config register is used to specify a pin as input (1 bit-value) or output (0 bit-value).
+  CON_PORT = 0x03
+}
+
+/**
+ * Namespace for types for PCA9557
+ */
+export namespace PCA9557 {
+  /**
+   * A pin number from 0 to 7
+   * @type {number}
+   */
+  export type PinNumber = IOExpander.PinNumber8;
+
+  /**
+   * Possible pin directions.
+   * 0 = out, 1 = in, -1 = undefined
+   */
+  export type PinDirection = IOExpander.PinDirection;
+
+  /**
+   * Data of an 'input' event
+   * @type {Object}
+   */
+  export type InputData = IOExpander.InputData<PinNumber>;
+
+  /**
+   * Options for the instance.
+   */
+  export type Options = IOExpander.Options;
+}
+
+/**
+ * Class for handling a PCA9557 IC.
+ *
+ * At power on, all pins are inputs with the output register set high.
+ * Unlike the PCA9554, the polarity inversion register inverts pins 4 to 7 at power on (0xF0). It is reset to 0x00 by `initialize()`.
+ *
+ * Pin 0 is an open-drain output without a pull-up resistor: setting it high (respecting `inverted`) releases the line,
+ * so an external pull-up resistor is required to get a high level. Pins 1 to 7 are push-pull outputs.
+ * The IC has no interrupt output (the pin is a reset input), so input changes have to be detected by polling.
+ */
+export class PCA9557 extends IOExpander<IOExpander.PinNumber8> {
+
+  /** Number of pins the IC has. */
+  protected _pins = <const>8;
+
+  /**
+   * Constructor for a new PCA9557 instance.
+   * If you use this IC with one or more input pins, you have to call ...
+   *  a) doPoll() frequently enough to detect input changes with manually polling, or
+   *  b) startPolling() to poll in an interval, as the IC has no interrupt output.
+   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus, or a transport for other buses.
+   * @param  {number}         address      The address of the PCA9557 IC. (0x18 to 0x1F)
+   * @param  {Options}        options      (optional) Options for the instance, e.g. a bus arbiter.
+   */
+  constructor (i2cBus: I2CBus | IOExpander.Transport, address: number, options?: PCA9557.Options) {
+    if (address < 0x18 || address > 0x1F) {
+      throw new Error('Address out of range.');
+    }
+    super(i2cBus, address, options);
+  }
+
+  protected async _initializeChip (initialHardwareState: number) : Promise<void> {
+    // On startup, Force no Polarity Invert as we will manage this in software with the _inverted bitField.
+    // This is required as the polarity inversion register of the PCA9557 inverts pins 4 to 7 at power on (0xF0).
+    await this._writeChipRegister(PCA9557_REGISTERS.POL_INV, 1, 0x00);
+    // Set pins marked as input.
+    await this._writeChipRegister(PCA9557_REGISTERS.CON_PORT, 1, this._inputPinBitmask);
+    // Write the initial state which should have no effect as all ports set as input but ensures output register is set appropriately.
+    await this._writeChipRegister(PCA9557_REGISTERS.OUTPUT_PORT, 1, initialHardwareState);
+  }
+
+  protected _readState () : Promise<number> {
+    return this._readChipRegister(PCA9557_REGISTERS.INPUT_PORT, 1);
+  }
+
+  protected _writeState (state: number) : Promise<void> {
+    return this._writeChipRegister(PCA9557_REGISTERS.OUTPUT_PORT, 1, state);
+  }
+
+  protected _writeDirection (inputPinBitmask: number) : Promise<void> {
+    return this._writeChipRegister(PCA9557_REGISTERS.CON_PORT, 1, inputPinBitmask);
+  }
+}
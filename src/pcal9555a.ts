@@ -0,0 +1,301 @@
+/*
+ * Node.js PCAL9555A and PCAL6416A
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * Node.js module for controlling each pin of a PCAL9555A or PCAL6416A I2C port expander IC.
+ * These ICs extend the registers of the PCA9555 by the "agile I/O" registers.
+ */
+import { I2CBus } from 'i2c-bus';
+
+import { CAT9555 } from './cat9555';
+import { IOExpander } from './ioExpander';
+
+// By annotating an enum option, you set the value;
+// increments continue from that value:
+
+enum PCAL9555A_REGISTERS {
+  // The Input registers are used to read data from the port.
+  INPUT_PORT_0 = 0x00,
+  INPUT_PORT_1 = 0x01,
+  // The Input Latch registers keep the level of a changed input until the input register is read.
+  INPUT_LATCH_0 = 0x44,
+  INPUT_LATCH_1 = 0x45,
+  // The Pull-up/Pull-down Enable registers enable the pull resistor of a pin.
+  PULL_ENABLE_0 = 0x46,
+  PULL_ENABLE_1 = 0x47,
+  // The Pull-up/Pull-down Selection registers select a pull-up (1 bit-value) or pull-down (0 bit-value) resistor.
+  PULL_SELECT_0 = 0x48,
+  PULL_SELECT_1 = 0x49,
+  // The Interrupt Mask registers mask (1 bit-value) or enable (0 bit-value) the interrupt of a pin.
+  INT_MASK_0 = 0x4A,
+  INT_MASK_1 = 0x4B,
+  // The Interrupt Status registers show the pins which caused an interrupt.
+  INT_STATUS_0 = 0x4C,
+  INT_STATUS_1 = 0x4D
+}
+
+/**
+ * Namespace for types for PCAL9555A
+ */
+export namespace PCAL9555A {
+  /**
+   * A pin number from 0 to 15
+   * @type {number}
+   */
+  export type PinNumber = IOExpander.PinNumber16;
+
+  /**
+   * Possible pin directions.
+   * 0 = out, 1 = in, -1 = undefined
+   */
+  export type PinDirection = IOExpander.PinDirection;
+
+  /**
+   * Data of an 'input' event
+   * @type {Object}
+   */
+  export type InputData = IOExpander.InputData<PinNumber>;
+
+  /**
+   * Options for the instance.
+   */
+  export type Options = CAT9555.Options;
+
+  /**
+   * Options for an input pin.
+   */
+  export interface InputPinOptions extends IOExpander.InputPinOptions {
+    /**
+     * Enable (true) or disable (false) the internal pull-down resistor of the pin.
+     * A pin can't use the pull-up and the pull-down resistor at the same time. If not set, the pull-down is not changed.
+     */
+    pullDown?: boolean;
+
+    /**
+     * Enable (true) or disable (false) the input latch of the pin.
+     * A latched pin keeps the level after a change until it is read, so a short pulse is not lost. If not set, the latch is not changed.
+     */
+    latch?: boolean;
+  }
+}
+
+/**
+ * Namespace for types for PCAL6416A
+ */
+export namespace PCAL6416A {
+  /**
+   * A pin number from 0 to 15
+   * @type {number}
+   */
+  export type PinNumber = IOExpander.PinNumber16;
+
+  /**
+   * Possible pin directions.
+   * 0 = out, 1 = in, -1 = undefined
+   */
+  export type PinDirection = IOExpander.PinDirection;
+
+  /**
+   * Data of an 'input' event
+   * @type {Object}
+   */
+  export type InputData = IOExpander.InputData<PinNumber>;
+
+  /**
+   * Options for the instance.
+   */
+  export type Options = PCAL9555A.Options;
+
+  /**
+   * Options for an input pin.
+   */
+  export type InputPinOptions = PCAL9555A.InputPinOptions;
+}
+
+/**
+ * Class for handling a PCAL9555A IC.
+ *
+ * At power on, all pins are inputs with the output registers set high and no polarity inversion.
+ * The pull-up and pull-down resistors are configured per pin. Like on the MCP23017, all pull-up resistors are enabled by `initialize()`.
+ * An interrupt reads the interrupt status registers to process the latched values of the pins which caused the interrupt.
+ */
+export class PCAL9555A extends CAT9555 {
+
+  /** Bitmask of the pins with enabled pull-down resistor. */
+  protected _pullDownBitmask: number = 0;
+
+  /** Bitmask of the pins with enabled input latch. */
+  protected _latchBitmask: number = 0;
+
+  /**
+   * Constructor for a new PCAL9555A instance.
+   * If you use this IC with one or more input pins, you have to call ...
+   *  a) enableInterrupt(gpioPin) to detect interrupts from the IC using a GPIO pin, or
+   *  b) doPoll() frequently enough to detect input changes with manually polling.
+   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus, or a transport for other buses.
+   * @param  {number}         address      The address of the PCAL9555A IC. (0x20 to 0x27)
+   * @param  {Options}        options      (optional) Options for the instance, e.g. a bus arbiter.
+   */
+  constructor (i2cBus: I2CBus | IOExpander.Transport, address: number, options?: PCAL9555A.Options) {
+    if (address < 0x20 || address > 0x27) {
+      throw new Error('Address out of range.');
+    }
+    super(i2cBus, address, options);
+  }
+
+  protected async _initializeChip (initialHardwareState: number) : Promise<void> {
+    await super._initializeChip(initialHardwareState);
+    // Mask all interrupts.
+    await this._writeChipRegister(PCAL9555A_REGISTERS.INT_MASK_0, 2, 0xFFFF);
+    // At startup, no pins are latched and no pull-down resistors are enabled.
+    this._latchBitmask = 0;
+    this._pullDownBitmask = 0;
+    await this._writeChipRegister(PCAL9555A_REGISTERS.INPUT_LATCH_0, 2, this._latchBitmask);
+    // Set the pull-up resistors, all enabled by default.
+    await this._writePull(this._pullUpBitmask, this._pullDownBitmask);
+  }
+
+  protected _writeInterruptControl (interruptBitmask: number) : Promise<void> {
+    return this._writeChipRegister(PCAL9555A_REGISTERS.INT_MASK_0, 2, ~interruptBitmask & 0xFFFF);
+  }
+
+  protected async _writePullUp (pullUpBitmask: number) : Promise<void> {
+    // Enabling a pull-up resistor disables the pull-down resistor of the pin.
+    const pullDownBitmask = this._pullDownBitmask & ~pullUpBitmask;
+    await this._writePull(pullUpBitmask, pullDownBitmask);
+    this._pullDownBitmask = pullDownBitmask;
+  }
+
+  protected async _readInterruptCapture () : Promise<IOExpander.InterruptCapture> {
+    // The interrupt status is reset by reading the input registers, so read it first.
+    const flags = await this._readChipRegister(PCAL9555A_REGISTERS.INT_STATUS_0, 2);
+    // Latched pins return their level after the change which caused the interrupt.
+    const state = await this._readChipRegister(PCAL9555A_REGISTERS.INPUT_PORT_0, 2);
+    // The flags only select the captured values. All pins are compared with the state, as a pin which changed
+    // after the interrupt status was read has no flag, but its interrupt is reset by reading the input registers.
+    return { flags: flags, captured: state, state: state };
+  }
+
+  /**
+   * Write the pull-up and pull-down resistor configuration to the IC.
+   * @param  {number}  pullUpBitmask   Bitmask of the pins with enabled pull-up resistor.
+   * @param  {number}  pullDownBitmask Bitmask of the pins with enabled pull-down resistor.
+   * @return {Promise}
+   */
+  private async _writePull (pullUpBitmask: number, pullDownBitmask: number) : Promise<void> {
+    // Select the resistor first to avoid enabling the wrong one.
+    await this._writeChipRegister(PCAL9555A_REGISTERS.PULL_SELECT_0, 2, pullUpBitmask);
+    await this._writeChipRegister(PCAL9555A_REGISTERS.PULL_ENABLE_0, 2, pullUpBitmask | pullDownBitmask);
+  }
+
+  /**
+   * Define a pin as an input.
+   * In addition to the common options, the pull-down resistor and the input latch of the pin can be set.
+   * @param  {PinNumber}         pin      The pin number. (0 to 15)
+   * @param  {boolean}           inverted true if this pin should be handled inverted (high=false, low=true)
+   * @param  {InputPinOptions}   options  (optional) Additional options for the pin.
+   * @return {Promise<number>}   number The current state of the pins.
+   */
+  public inputPin (pin: PCAL9555A.PinNumber, inverted: boolean, options?: PCAL9555A.InputPinOptions): Promise<number> {
+    return super.inputPin(pin, inverted, options);
+  }
+
+  /**
+   * Check the pin and the options of `inputPin()` including the pull-down resistor.
+   * @param  {PinNumber}         pin     The pin number. (0 to 15)
+   * @param  {InputPinOptions}   options (optional) Additional options for the pin.
+   */
+  protected _validateInputPinOptions (pin: PCAL9555A.PinNumber, options?: PCAL9555A.InputPinOptions) : void {
+    super._validateInputPinOptions(pin, options);
+
+    if (options && options.pullUp === true && options.pullDown === true) {
+      throw new Error('Pull-up and pull-down can not be enabled together.');
+    }
+  }
+
+  /**
+   * Write the pull-down resistor and the input latch of an input pin in addition to the pull-up resistor.
+   * @param  {PinNumber}         pin     The pin number. (0 to 15)
+   * @param  {InputPinOptions}   options (optional) Additional options for the pin.
+   * @return {Promise}
+   */
+  protected async _writeInputPinOptions (pin: PCAL9555A.PinNumber, options?: PCAL9555A.InputPinOptions) : Promise<void> {
+    if (options && typeof (options.pullDown) === 'boolean') {
+      await this.setPullDown(pin, options.pullDown);
+    }
+
+    if (options && typeof (options.latch) === 'boolean') {
+      await this.setInputLatch(pin, options.latch);
+    }
+
+    await super._writeInputPinOptions(pin, options);
+  }
+
+  /**
+   * Enable or disable the internal pull-down resistor of a pin.
+   * Enabling the pull-down resistor disables the pull-up resistor of the pin.
+   * @param  {PinNumber} pin     The pin number. (0 to 15)
+   * @param  {boolean}   enabled true to enable the pull-down resistor.
+   * @return {Promise}
+   */
+  public async setPullDown (pin: PCAL9555A.PinNumber, enabled: boolean): Promise<void> {
+    if (pin < 0 || pin > (this._pins - 1)) {
+      throw new Error('Pin out of range.');
+    }
+
+    // Calculate the new bitmasks in the queue to not lose concurrent changes of other pins.
+    await this._queue.enqueue(async () => {
+      const pullDownBitmask = this._setStatePin(this._pullDownBitmask, pin, enabled);
+      const pullUpBitmask = enabled ? this._setStatePin(this._pullUpBitmask, pin, false) : this._pullUpBitmask;
+      await this._writePull(pullUpBitmask, pullDownBitmask);
+      this._pullDownBitmask = pullDownBitmask;
+      this._pullUpBitmask = pullUpBitmask;
+    });
+  }
+
+  /**
+   * Enable or disable the input latch of a pin.
+   * A latched pin keeps the level after a change until the pin is read, so a pulse shorter than the interrupt latency is not lost.
+   * The level after the pulse is then detected by the next interrupt.
+   * @param  {PinNumber} pin     The pin number. (0 to 15)
+   * @param  {boolean}   enabled true to enable the input latch.
+   * @return {Promise}
+   */
+  public async setInputLatch (pin: PCAL9555A.PinNumber, enabled: boolean): Promise<void> {
+    if (pin < 0 || pin > (this._pins - 1)) {
+      throw new Error('Pin out of range.');
+    }
+
+    // Calculate the new bitmask in the queue to not lose concurrent changes of other pins.
+    await this._queue.enqueue(async () => {
+      const latchBitmask = this._setStatePin(this._latchBitmask, pin, enabled);
+      await this._writeChipRegister(PCAL9555A_REGISTERS.INPUT_LATCH_0, 2, latchBitmask);
+      this._latchBitmask = latchBitmask;
+    });
+  }
+}
+
+/**
+ * Class for handling a PCAL6416A IC, the low voltage (1.65 V to 5.5 V) variant of the PCAL9555A with two addresses.
+ *
+ * The registers and the behavior are the same as of the PCAL9555A.
+ */
+export class PCAL6416A extends PCAL9555A {
+
+  /**
+   * Constructor for a new PCAL6416A instance.
+   * If you use this IC with one or more input pins, you have to call ...
+   *  a) enableInterrupt(gpioPin) to detect interrupts from the IC using a GPIO pin, or
+   *  b) doPoll() frequently enough to detect input changes with manually polling.
+   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus, or a transport for other buses.
+   * @param  {number}         address      The address of the PCAL6416A IC. (0x20 or 0x21)
+   * @param  {Options}        options      (optional) Options for the instance, e.g. a bus arbiter.
+   */
+  constructor (i2cBus: I2CBus | IOExpander.Transport, address: number, options?: PCAL6416A.Options) {
+    if (address < 0x20 || address > 0x21) {
+      throw new Error('Address out of range.');
+    }
+    super(i2cBus, address, options);
+  }
+}
@@ -32,6 +32,11 @@ export namespace PCF8575 {
    * @type {Object}
    */
   export type InputData = IOExpander.InputData<PinNumber>;
+
+  /**
+   * Options for the instance.
+   */
+  export type Options = IOExpander.Options;
 }
 
 /**
@@ -47,11 +52,12 @@ export class PCF8575 extends IOExpander<IOExpander.PinNumber16> {
    * If you use this IC with one or more input pins, you have to call ...
    *  a) enableInterrupt(gpioPin) to detect interrupts from the IC using a GPIO pin, or
    *  b) doPoll() frequently enough to detect input changes with manually polling.
-   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus.
+   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus, or a transport for other buses.
    * @param  {number}         address      The address of the PCF8575 IC.
+   * @param  {Options}        options      (optional) Options for the instance, e.g. a bus arbiter.
    */
-  constructor (i2cBus: I2CBus, address: number) {
-    super(i2cBus, address);
+  constructor (i2cBus: I2CBus | IOExpander.Transport, address: number, options?: PCF8575.Options) {
+    super(i2cBus, address, options);
   }
 
   protected _initializeChip (initialHardwareState: number) : Promise<void> {
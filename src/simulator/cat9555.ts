@@ -0,0 +1,108 @@
+/*
+ * Node.js I2C io expanders - Simulated CAT9555
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * Register-accurate simulation of the CAT9555 IC.
+ */
+import { SimulatedRegisterChip } from './chip';
+
+/**
+ * Simulated CAT9555 IC.
+ *
+ * Registers 0x00-0x07 are the input, output, polarity inversion and configuration registers
+ * for port 0 and port 1. The register pointer toggles between the two registers of a pair.
+ * Input pins which are not driven externally are pulled high.
+ *
+ * The interrupt line is open-drain active low. It is activated when an input pin level changes and
+ * is reset by reading the input register of the port.
+ */
+export class SimulatedCAT9555 extends SimulatedRegisterChip {
+
+  /** The output registers. All high at power on. */
+  private _output: number = 0xFFFF;
+
+  /** The polarity inversion registers. Not inverted at power on. */
+  private _polarity: number = 0x0000;
+
+  /** The configuration registers. All pins are inputs at power on. */
+  private _config: number = 0xFFFF;
+
+  /** Input pin levels at the time of the last read of the input registers. */
+  private _lastInputLevels: number;
+
+  constructor () {
+    super(16);
+    this._lastInputLevels = this.getPinLevels() & this._config;
+  }
+
+  public getPinLevels (): number {
+    const inputLevels = ~this._drivenBitmask | this._drivenLevels;
+    return ((this._config & inputLevels) | (~this._config & this._output)) & this._allPinsBitmask;
+  }
+
+  protected _readRegister (register: number, sideEffects: boolean): number {
+    const shift = 8 * (register & 0x01);
+    switch (register) {
+      case 0x00:
+      case 0x01: {
+        const levels = this.getPinLevels();
+        if (sideEffects) {
+          // Reading the input register of a port resets the change detection for this port.
+          const mask = 0xFF << shift;
+          this._lastInputLevels = (this._lastInputLevels & ~mask) | (levels & this._config & mask);
+        }
+        return ((levels ^ this._polarity) >> shift) & 0xFF;
+      }
+      case 0x02:
+      case 0x03:
+        return (this._output >> shift) & 0xFF;
+      case 0x04:
+      case 0x05:
+        return (this._polarity >> shift) & 0xFF;
+      case 0x06:
+      case 0x07:
+        return (this._config >> shift) & 0xFF;
+      default:
+        throw new Error('Invalid register.');
+    }
+  }
+
+  protected _writeRegister (register: number, value: number): void {
+    const shift = 8 * (register & 0x01);
+    const mask = 0xFF << shift;
+    switch (register) {
+      case 0x00:
+      case 0x01:
+        // Input registers are read-only.
+        break;
+      case 0x02:
+      case 0x03:
+        this._output = (this._output & ~mask) | (value << shift);
+        break;
+      case 0x04:
+      case 0x05:
+        this._polarity = (this._polarity & ~mask) | (value << shift);
+        break;
+      case 0x06:
+      case 0x07: {
+        const previousConfig = this._config;
+        this._config = (this._config & ~mask) | (value << shift);
+        // Pins which just became inputs start with their current level for the change detection.
+        const newInputs = this._config & ~previousConfig;
+        this._lastInputLevels = (this._lastInputLevels & ~newInputs) | (this.getPinLevels() & newInputs);
+        break;
+      }
+      default:
+        throw new Error('Invalid register.');
+    }
+  }
+
+  protected _nextRegister (register: number): number {
+    return register ^ 0x01;
+  }
+
+  protected _update (): void {
+    this._setInterrupt(0, ((this.getPinLevels() ^ this._lastInputLevels) & this._config) !== 0);
+  }
+}
@@ -0,0 +1,231 @@
+/*
+ * Node.js I2C io expanders - Simulated chip
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * Common code for the simulated io expander chips.
+ */
+import { EventEmitter } from 'events';
+
+import { SimulatedI2CDevice } from './i2c-bus';
+
+/**
+ * Interface for events of SimulatedChip
+ */
+export interface SimulatedChip {
+  /**
+   * Emit an interrupt event.
+   * @param event 'interrupt'
+   * @param line Number of the interrupt line which became active.
+   */
+  emit (event: 'interrupt', line: number): boolean;
+
+  /**
+   * Emitted when an interrupt line of the chip becomes active.
+   * @param event 'interrupt'
+   * @param listener Eventlistener with the number of the interrupt line as first argument.
+   */
+  on (event: 'interrupt', listener: (line: number) => void): this;
+}
+
+/**
+ * Base class of all simulated chips.
+ *
+ * The level of each pin is a combination of what the chip drives and what is driven "externally".
+ * External levels are set by the application (e.g. a test) with `setInputLevel()`/`setInputLevels()`.
+ * A pin which is not driven externally floats and takes whatever level the chip applies to it.
+ */
+export abstract class SimulatedChip extends EventEmitter implements SimulatedI2CDevice {
+
+  /** Number of pins the chip has. */
+  public readonly pins: 8 | 16;
+
+  /** Bitmask with all pins of the chip set. */
+  protected readonly _allPinsBitmask: number;
+
+  /** Bitmask of the pins which are driven externally. */
+  protected _drivenBitmask: number = 0;
+
+  /** Levels of the pins which are driven externally. */
+  protected _drivenLevels: number = 0;
+
+  /** Current state of the interrupt lines. */
+  private _interruptActive: boolean[] = [];
+
+  /**
+   * Constructor for a new simulated chip.
+   * @param {number} pins Number of pins of the chip.
+   */
+  constructor (pins: 8 | 16) {
+    super();
+    this.pins = pins;
+    this._allPinsBitmask = Math.pow(2, pins) - 1;
+  }
+
+  /**
+   * Drive a pin from "outside" or release it.
+   * @param {number}       pin   The pin number.
+   * @param {boolean|null} level The level to drive, or null to release the pin.
+   */
+  public setInputLevel (pin: number, level: boolean | null): void {
+    if (pin < 0 || pin > (this.pins - 1)) {
+      throw new Error('Pin out of range.');
+    }
+    const bit = 1 << pin;
+    if (level === null) {
+      this._drivenBitmask &= ~bit;
+      this._drivenLevels &= ~bit;
+    } else {
+      this._drivenBitmask |= bit;
+      this._drivenLevels = level ? (this._drivenLevels | bit) : (this._drivenLevels & ~bit);
+    }
+    this._update();
+  }
+
+  /**
+   * Drive multiple pins from "outside" at once.
+   * @param {number} levels The levels to drive as bitmask.
+   * @param {number} mask   (optional) Bitmask of the pins to drive. Defaults to all pins.
+   */
+  public setInputLevels (levels: number, mask?: number): void {
+    mask = (typeof (mask) === 'number' ? mask : this._allPinsBitmask) & this._allPinsBitmask;
+    this._drivenBitmask |= mask;
+    this._drivenLevels = (this._drivenLevels & ~mask) | (levels & mask);
+    this._update();
+  }
+
+  /**
+   * Release all externally driven pins.
+   */
+  public releaseInputs (): void {
+    this._drivenBitmask = 0;
+    this._drivenLevels = 0;
+    this._update();
+  }
+
+  /**
+   * Returns the current level of a pin as it would be measured on the wire.
+   * @param  {number}  pin The pin number.
+   * @return {boolean} true if the pin is high.
+   */
+  public getPinLevel (pin: number): boolean {
+    if (pin < 0 || pin > (this.pins - 1)) {
+      throw new Error('Pin out of range.');
+    }
+    return ((this.getPinLevels() >> pin) & 1) !== 0;
+  }
+
+  /**
+   * Returns the current levels of all pins as bitmask.
+   * @return {number} The pin levels.
+   */
+  public abstract getPinLevels (): number;
+
+  /**
+   * Returns if an interrupt line is currently active.
+   * @param  {number}  line (optional) The interrupt line. Defaults to 0.
+   * @return {boolean} true if the interrupt is active.
+   */
+  public isInterruptActive (line?: number): boolean {
+    return !!this._interruptActive[line || 0];
+  }
+
+  /**
+   * Returns the electrical level of an interrupt line.
+   * Open-drain lines are assumed to have an external pull-up.
+   * By default the line is open-drain and active low.
+   * @param  {number}  line (optional) The interrupt line. Defaults to 0.
+   * @return {boolean} true if the line is high.
+   */
+  public getInterruptLevel (line?: number): boolean {
+    return !this.isInterruptActive(line);
+  }
+
+  public abstract receive (length: number): Buffer;
+
+  public abstract transmit (data: Buffer): void;
+
+  /**
+   * Recalculate the chip state after the pin levels may have changed.
+   */
+  protected abstract _update (): void;
+
+  /**
+   * Set the state of an interrupt line and emit an 'interrupt' event if the line became active.
+   * @param {number}  line   The interrupt line.
+   * @param {boolean} active The new state of the line.
+   */
+  protected _setInterrupt (line: number, active: boolean): void {
+    const wasActive = !!this._interruptActive[line];
+    this._interruptActive[line] = active;
+    if (active && !wasActive) {
+      this.emit('interrupt', line);
+    }
+  }
+}
+
+/**
+ * Base class of all simulated chips with a register pointer.
+ *
+ * A write sets the register pointer with its first byte and writes the remaining bytes to the
+ * registers starting at the pointer. A read returns the registers starting at the pointer.
+ * The pointer advances after each byte as defined by `_nextRegister()`.
+ */
+export abstract class SimulatedRegisterChip extends SimulatedChip {
+
+  /** The register pointer. */
+  protected _pointer: number = 0;
+
+  public receive (length: number): Buffer {
+    const data = Buffer.alloc(length);
+    for (let i = 0; i < length; i++) {
+      data[i] = this._readRegister(this._pointer, true) & 0xFF;
+      this._pointer = this._nextRegister(this._pointer);
+    }
+    this._update();
+    return data;
+  }
+
+  public transmit (data: Buffer): void {
+    if (data.length === 0) {
+      return;
+    }
+    this._pointer = data[0];
+    for (let i = 1; i < data.length; i++) {
+      this._writeRegister(this._pointer, data[i]);
+      this._pointer = this._nextRegister(this._pointer);
+    }
+    this._update();
+  }
+
+  /**
+   * Returns the value of a register without any side effects of a read.
+   * @param  {number} register The register.
+   * @return {number} The 8 bit value of the register.
+   */
+  public peekRegister (register: number): number {
+    return this._readRegister(register, false) & 0xFF;
+  }
+
+  /**
+   * Read a register.
+   * @param  {number}  register    The register.
+   * @param  {boolean} sideEffects true if this is a read from the bus which may change the chip state.
+   * @return {number}  The 8 bit value of the register.
+   */
+  protected abstract _readRegister (register: number, sideEffects: boolean): number;
+
+  /**
+   * Write a register.
+   * @param {number} register The register.
+   * @param {number} value    The 8 bit value to write.
+   */
+  protected abstract _writeRegister (register: number, value: number): void;
+
+  /**
+   * Returns the register the pointer advances to after an access to the given register.
+   * @param  {number} register The register.
+   * @return {number} The next register.
+   */
+  protected abstract _nextRegister (register: number): number;
+}
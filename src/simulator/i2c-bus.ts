@@ -0,0 +1,208 @@
+/*
+ * Node.js I2C io expanders - Simulated I2C bus
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * In-memory stand-in for an i2c-bus `I2CBus` which routes transactions to simulated chips.
+ */
+import { I2CBus } from 'i2c-bus';
+
+/**
+ * Interface of a device which can be attached to a `SimulatedI2CBus`.
+ */
+export interface SimulatedI2CDevice {
+  /**
+   * Handle a plain I2C read of the given number of bytes.
+   * @param  {number} length Number of bytes requested by the master.
+   * @return {Buffer}        The bytes returned by the device.
+   */
+  receive (length: number): Buffer;
+
+  /**
+   * Handle a plain I2C write of the given bytes.
+   * @param {Buffer} data The bytes written by the master.
+   */
+  transmit (data: Buffer): void;
+}
+
+/**
+ * Namespace for types for SimulatedI2CBus
+ */
+export namespace SimulatedI2CBus {
+  /**
+   * Names of the i2c-bus methods supported by the simulated bus.
+   */
+  export type Operation = 'i2cRead' | 'i2cWrite' | 'readI2cBlock' | 'writeI2cBlock';
+
+  /**
+   * Record of a single transaction processed by the simulated bus.
+   */
+  export interface Transaction {
+    /**
+     * The i2c-bus method which was called.
+     */
+    operation: Operation;
+
+    /**
+     * The address of the device.
+     */
+    address: number;
+
+    /**
+     * The register (command) for block transactions, undefined for plain reads and writes.
+     */
+    register?: number;
+
+    /**
+     * The bytes read or written.
+     */
+    data: number[];
+  }
+}
+
+/**
+ * In-memory I2C bus implementing the subset of `I2CBus` used by the `IOExpander` classes.
+ *
+ * Block transactions are modelled the way they appear on the wire: `readI2cBlock` writes the
+ * register byte and then reads, `writeI2cBlock` writes the register byte followed by the data.
+ * All callbacks are invoked asynchronously like those of a real bus.
+ */
+export class SimulatedI2CBus implements Pick<I2CBus, SimulatedI2CBus.Operation> {
+
+  /** Devices attached to the bus, keyed by address. */
+  private _devices: Map<number, SimulatedI2CDevice> = new Map();
+
+  /** Errors to be returned by the next transactions. */
+  private _pendingErrors: Error[] = [];
+
+  /** Log of all transactions processed by the bus. */
+  public transactions: SimulatedI2CBus.Transaction[] = [];
+
+  /**
+   * Attach a device to the bus.
+   * @param {number}             address The address of the device.
+   * @param {SimulatedI2CDevice} device  The device.
+   * @return {SimulatedI2CDevice} The attached device.
+   */
+  public attach<T extends SimulatedI2CDevice> (address: number, device: T): T {
+    if (address < 0 || address > 127) {
+      throw new Error('Address out of range.');
+    }
+    if (this._devices.has(address)) {
+      throw new Error('Address already in use.');
+    }
+    this._devices.set(address, device);
+    return device;
+  }
+
+  /**
+   * Detach the device with the given address from the bus.
+   * @param {number} address The address of the device.
+   */
+  public detach (address: number): void {
+    this._devices.delete(address);
+  }
+
+  /**
+   * Let the next transaction on the bus fail with the given error.
+   * @param {Error} err (optional) The error. Defaults to a remote I/O error.
+   */
+  public failNextTransaction (err?: Error): void {
+    this._pendingErrors.push(err || new Error('Remote I/O error'));
+  }
+
+  /**
+   * Clear the transaction log.
+   */
+  public clearTransactions (): void {
+    this.transactions = [];
+  }
+
+  /**
+   * Returns this bus typed as `I2CBus` to pass it to the constructors of the expander classes.
+   * @return {I2CBus} This bus.
+   */
+  public asI2CBus (): I2CBus {
+    return this as unknown as I2CBus;
+  }
+
+  public i2cRead (address: number, length: number, buffer: Buffer, callback: (error: any, bytesRead: number, buffer: Buffer) => any): void {
+    this._process(callback, buffer, () => {
+      const data = this._device(address).receive(length);
+      data.copy(buffer, 0, 0, length);
+      this._log('i2cRead', address, undefined, buffer, length);
+      return length;
+    });
+  }
+
+  public i2cWrite (address: number, length: number, buffer: Buffer, callback: (error: any, bytesWritten: number, buffer: Buffer) => any): void {
+    this._process(callback, buffer, () => {
+      this._device(address).transmit(buffer.subarray(0, length));
+      this._log('i2cWrite', address, undefined, buffer, length);
+      return length;
+    });
+  }
+
+  public readI2cBlock (address: number, command: number, length: number, buffer: Buffer, callback: (error: any, bytesRead: number, buffer: Buffer) => any): void {
+    this._process(callback, buffer, () => {
+      const device = this._device(address);
+      device.transmit(Buffer.from([command]));
+      const data = device.receive(length);
+      data.copy(buffer, 0, 0, length);
+      this._log('readI2cBlock', address, command, buffer, length);
+      return length;
+    });
+  }
+
+  public writeI2cBlock (address: number, command: number, length: number, buffer: Buffer, callback: (error: any, bytesWritten: number, buffer: Buffer) => any): void {
+    this._process(callback, buffer, () => {
+      this._device(address).transmit(Buffer.concat([Buffer.from([command]), buffer.subarray(0, length)]));
+      this._log('writeI2cBlock', address, command, buffer, length);
+      return length;
+    });
+  }
+
+  /**
+   * Get the device with the given address or throw if there is none.
+   */
+  private _device (address: number): SimulatedI2CDevice {
+    const device = this._devices.get(address);
+    if (!device) {
+      throw new Error('Remote I/O error');
+    }
+    return device;
+  }
+
+  /**
+   * Add a transaction to the log.
+   */
+  private _log (operation: SimulatedI2CBus.Operation, address: number, register: number | undefined, buffer: Buffer, length: number): void {
+    const transaction: SimulatedI2CBus.Transaction = { operation, address, data: Array.from(buffer.subarray(0, length)) };
+    if (register !== undefined) {
+      transaction.register = register;
+    }
+    this.transactions.push(transaction);
+  }
+
+  /**
+   * Run a transaction asynchronously and report the result to the callback.
+   */
+  private _process (callback: (error: any, bytes: number, buffer: Buffer) => any, buffer: Buffer, transaction: () => number): void {
+    setImmediate(() => {
+      const err = this._pendingErrors.shift();
+      if (err) {
+        callback(err, 0, buffer);
+        return;
+      }
+
+      let bytes: number;
+      try {
+        bytes = transaction();
+      } catch (e) {
+        callback(e, 0, buffer);
+        return;
+      }
+      callback(null, bytes, buffer);
+    });
+  }
+}
@@ -0,0 +1,8 @@
+export { SimulatedI2CBus, SimulatedI2CDevice } from './i2c-bus';
+export { SimulatedChip, SimulatedRegisterChip } from './chip';
+export { SimulatedCAT9555 } from './cat9555';
+export { SimulatedMCP230xx, SimulatedMCP23008, SimulatedMCP23017, SimulatedMCP23018 } from './mcp230xx';
+export { SimulatedPCA9554, SimulatedPCA9557 } from './pca9554';
+export { SimulatedPCAL9555A } from './pcal9555a';
+export { SimulatedPCF857x, SimulatedPCF8574, SimulatedPCF8575 } from './pcf857x';
+export { SimulatedSpiDevice } from './spi-device';
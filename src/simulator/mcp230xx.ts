@@ -0,0 +1,337 @@
+/*
+ * Node.js I2C io expanders - Simulated MCP23008, MCP23017 and MCP23018
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * Register-accurate simulation of the MCP23008, MCP23017 and MCP23018 ICs.
+ */
+import { SimulatedRegisterChip } from './chip';
+
+// Index of the registers of a port.
+// MCP23008 registers and MCP23017 registers in BANK=0 (divided by 2) are in this order.
+enum PORT_REGISTERS {
+  IODIR = 0,
+  IPOL = 1,
+  GPINTEN = 2,
+  DEFVAL = 3,
+  INTCON = 4,
+  IOCON = 5,
+  GPPU = 6,
+  INTF = 7,
+  INTCAP = 8,
+  GPIO = 9,
+  OLAT = 10,
+  // The addresses 0x0B to 0x0F of a port in BANK=1.
+  UNIMPLEMENTED = 11
+}
+
+// Number of registers of a port.
+const PORT_REGISTER_COUNT = 11;
+
+// The IOCON bits the simulation cares about.
+enum IOCON_FLAGS {
+  BANK = 0x80,
+  MIRROR = 0x40,
+  SEQOP = 0x20,
+  HAEN = 0x08,
+  ODR = 0x04,
+  INTPOL = 0x02
+}
+
+/**
+ * Common simulation of the MCP23008 and MCP23017.
+ *
+ * Supported are the direction (IODIR), input polarity (IPOL), pull-ups (GPPU), output latches (OLAT),
+ * interrupt-on-change and interrupt-on-compare (GPINTEN, DEFVAL, INTCON), the interrupt flags and
+ * captures (INTF, INTCAP), sequential operation and the interrupt output configuration in IOCON.
+ * The MCP23017 supports both register banks (IOCON.BANK).
+ *
+ * Input pins which are neither driven externally nor pulled up read low.
+ *
+ * As on the real chip, the first interrupt condition of a port sets INTF and captures the port in
+ * INTCAP. Further conditions are ignored until the interrupt is cleared by reading GPIO or INTCAP.
+ * A persisting interrupt-on-compare condition keeps the interrupt active after the clear.
+ */
+export abstract class SimulatedMCP230xx extends SimulatedRegisterChip {
+
+  /** Number of ports of the chip. */
+  protected readonly _ports: number;
+
+  /** The registers of each port. */
+  protected _registers: number[][] = [];
+
+  /** The IOCON register which is shared by all ports. */
+  protected _iocon: number = 0x00;
+
+  /** The implemented bits of IOCON. */
+  protected _ioconMask: number = 0xFE;
+
+  /** Pin levels of each port at the time of the last update. Used to detect changes. */
+  private _lastLevels: number[] = [];
+
+  constructor (pins: 8 | 16) {
+    super(pins);
+    this._ports = pins / 8;
+    for (let port = 0; port < this._ports; port++) {
+      const registers: number[] = new Array(PORT_REGISTER_COUNT).fill(0x00);
+      // All pins are inputs at power on.
+      registers[PORT_REGISTERS.IODIR] = 0xFF;
+      this._registers.push(registers);
+    }
+    for (let port = 0; port < this._ports; port++) {
+      this._lastLevels.push(this._portLevels(port));
+    }
+  }
+
+  public getPinLevels (): number {
+    let levels = 0;
+    for (let port = 0; port < this._ports; port++) {
+      levels |= this._portLevels(port) << (8 * port);
+    }
+    return levels;
+  }
+
+  /**
+   * Returns if the hardware address is enabled (IOCON.HAEN). Only used by the SPI variants MCP23S08 and MCP23S17.
+   * Without hardware addressing, the IC responds to the hardware address 0 only.
+   * @return {boolean} true if the hardware address is enabled.
+   */
+  public isHardwareAddressEnabled (): boolean {
+    return (this._iocon & IOCON_FLAGS.HAEN) !== 0;
+  }
+
+  public getInterruptLevel (line?: number): boolean {
+    const openDrain = (this._iocon & IOCON_FLAGS.ODR) !== 0;
+    const activeHigh = (this._iocon & IOCON_FLAGS.INTPOL) !== 0;
+    if (this.isInterruptActive(line)) {
+      return openDrain ? false : activeHigh;
+    }
+    // A released open-drain line is pulled high externally.
+    return openDrain ? true : !activeHigh;
+  }
+
+  protected _readRegister (register: number, sideEffects: boolean): number {
+    const [port, index] = this._decodeRegister(register);
+    const registers = this._registers[port];
+    switch (index) {
+      case PORT_REGISTERS.IOCON:
+        return this._iocon;
+      case PORT_REGISTERS.UNIMPLEMENTED:
+        return 0x00;
+      case PORT_REGISTERS.GPIO: {
+        const value = this._portValue(port);
+        if (sideEffects) {
+          this._clearInterrupt(port);
+        }
+        return value;
+      }
+      case PORT_REGISTERS.INTCAP: {
+        const value = registers[PORT_REGISTERS.INTCAP];
+        if (sideEffects) {
+          this._clearInterrupt(port);
+        }
+        return value;
+      }
+      default:
+        return registers[index];
+    }
+  }
+
+  protected _writeRegister (register: number, value: number): void {
+    const [port, index] = this._decodeRegister(register);
+    switch (index) {
+      case PORT_REGISTERS.IOCON:
+        this._iocon = value & this._ioconMask;
+        break;
+      case PORT_REGISTERS.UNIMPLEMENTED:
+      case PORT_REGISTERS.INTF:
+      case PORT_REGISTERS.INTCAP:
+        // Read-only registers.
+        break;
+      case PORT_REGISTERS.GPIO:
+        // A write to GPIO writes the output latch.
+        this._registers[port][PORT_REGISTERS.OLAT] = value;
+        break;
+      default:
+        this._registers[port][index] = value;
+        break;
+    }
+  }
+
+  protected _update (): void {
+    for (let port = 0; port < this._ports; port++) {
+      const registers = this._registers[port];
+      const levels = this._portLevels(port);
+      const changed = levels ^ this._lastLevels[port];
+      this._lastLevels[port] = levels;
+
+      const enabled = registers[PORT_REGISTERS.GPINTEN];
+      const compare = registers[PORT_REGISTERS.INTCON];
+      const flags =
+        (changed & enabled & ~compare) |
+        ((levels ^ registers[PORT_REGISTERS.DEFVAL]) & enabled & compare);
+
+      // Only the first condition is captured until the interrupt is cleared.
+      if (flags !== 0 && registers[PORT_REGISTERS.INTF] === 0) {
+        registers[PORT_REGISTERS.INTF] = flags & 0xFF;
+        registers[PORT_REGISTERS.INTCAP] = this._portValue(port);
+      }
+    }
+    this._updateInterruptLines();
+  }
+
+  /**
+   * Update the interrupt lines from the interrupt flags of the ports.
+   */
+  protected abstract _updateInterruptLines (): void;
+
+  /**
+   * Returns if a port has an active interrupt.
+   * @param  {number}  port The port.
+   * @return {boolean} true if INTF of the port is not zero.
+   */
+  protected _isPortInterruptActive (port: number): boolean {
+    return this._registers[port][PORT_REGISTERS.INTF] !== 0;
+  }
+
+  /**
+   * Translate a register address into port and register index.
+   * @param  {number} register The register address.
+   * @return {Array}  The port and the register index.
+   */
+  protected abstract _decodeRegister (register: number): [number, number];
+
+  /**
+   * Clear the interrupt of a port.
+   */
+  private _clearInterrupt (port: number): void {
+    this._registers[port][PORT_REGISTERS.INTF] = 0x00;
+  }
+
+  /**
+   * Returns the levels of the pins of a port.
+   */
+  protected _portLevels (port: number): number {
+    const registers = this._registers[port];
+    const shift = 8 * port;
+    const driven = (this._drivenBitmask >> shift) & 0xFF;
+    const drivenLevels = (this._drivenLevels >> shift) & 0xFF;
+    const inputLevels = (driven & drivenLevels) | (~driven & registers[PORT_REGISTERS.GPPU]);
+    const direction = registers[PORT_REGISTERS.IODIR];
+    return ((direction & inputLevels) | (~direction & registers[PORT_REGISTERS.OLAT])) & 0xFF;
+  }
+
+  /**
+   * Returns the value of the GPIO register of a port, which respects the input polarity.
+   */
+  private _portValue (port: number): number {
+    const registers = this._registers[port];
+    return (this._portLevels(port) ^ (registers[PORT_REGISTERS.IPOL] & registers[PORT_REGISTERS.IODIR])) & 0xFF;
+  }
+}
+
+/**
+ * Simulated MCP23008 IC.
+ * The chip has one interrupt line (0).
+ */
+export class SimulatedMCP23008 extends SimulatedMCP230xx {
+  constructor () {
+    super(8);
+    // The MCP23008 has no BANK and MIRROR bits.
+    this._ioconMask = 0x3E;
+  }
+
+  protected _decodeRegister (register: number): [number, number] {
+    if (register < 0 || register >= PORT_REGISTER_COUNT) {
+      throw new Error('Invalid register.');
+    }
+    return [0, register];
+  }
+
+  protected _nextRegister (register: number): number {
+    if (this._iocon & IOCON_FLAGS.SEQOP) {
+      return register;
+    }
+    return (register + 1) % PORT_REGISTER_COUNT;
+  }
+
+  protected _updateInterruptLines (): void {
+    this._setInterrupt(0, this._isPortInterruptActive(0));
+  }
+}
+
+/**
+ * Simulated MCP23017 IC.
+ * Pins 0-7 are port A and pins 8-15 are port B.
+ * In BANK=0 the registers of port A have even and those of port B odd addresses.
+ * In BANK=1 the registers of port A are at 0x00 to 0x0A and those of port B at 0x10 to 0x1A.
+ * The chip has two interrupt lines, INTA (0) and INTB (1), which are combined if IOCON.MIRROR is set.
+ */
+export class SimulatedMCP23017 extends SimulatedMCP230xx {
+  constructor () {
+    super(16);
+  }
+
+  protected _decodeRegister (register: number): [number, number] {
+    if (this._iocon & IOCON_FLAGS.BANK) {
+      if (register < 0 || register > 0x1F) {
+        throw new Error('Invalid register.');
+      }
+      return [register >> 4, Math.min(register & 0x0F, PORT_REGISTERS.UNIMPLEMENTED)];
+    }
+    if (register < 0 || register >= 2 * PORT_REGISTER_COUNT) {
+      throw new Error('Invalid register.');
+    }
+    return [register & 0x01, register >> 1];
+  }
+
+  protected _nextRegister (register: number): number {
+    if (this._iocon & IOCON_FLAGS.BANK) {
+      if (this._iocon & IOCON_FLAGS.SEQOP) {
+        // The pointer does not increment.
+        return register;
+      }
+      // The pointer rolls over to 0x00 after the last register of port B.
+      return (register >= 0x10 + PORT_REGISTER_COUNT - 1) ? 0x00 : register + 1;
+    }
+    if (this._iocon & IOCON_FLAGS.SEQOP) {
+      // The pointer toggles between the A and B register of a pair.
+      return register ^ 0x01;
+    }
+    return (register + 1) % (2 * PORT_REGISTER_COUNT);
+  }
+
+  protected _updateInterruptLines (): void {
+    const activeA = this._isPortInterruptActive(0);
+    const activeB = this._isPortInterruptActive(1);
+    if (this._iocon & IOCON_FLAGS.MIRROR) {
+      this._setInterrupt(0, activeA || activeB);
+      this._setInterrupt(1, activeA || activeB);
+    } else {
+      this._setInterrupt(0, activeA);
+      this._setInterrupt(1, activeB);
+    }
+  }
+}
+
+/**
+ * Simulated MCP23018 IC, the MCP23017 with open-drain outputs.
+ *
+ * The registers are the same as of the MCP23017. An output with a low output latch drives the pin low.
+ * An output with a high output latch releases the pin, which is assumed to have an external pull-up.
+ * The pull-ups (GPPU) only apply to inputs.
+ */
+export class SimulatedMCP23018 extends SimulatedMCP23017 {
+
+  protected _portLevels (port: number): number {
+    const registers = this._registers[port];
+    const shift = 8 * port;
+    const driven = (this._drivenBitmask >> shift) & 0xFF;
+    const drivenLevels = (this._drivenLevels >> shift) & 0xFF;
+    const inputLevels = (driven & drivenLevels) | (~driven & registers[PORT_REGISTERS.GPPU]);
+    // Released outputs are high unless they are driven low externally.
+    const releasedLevels = ~driven | drivenLevels;
+    const direction = registers[PORT_REGISTERS.IODIR];
+    return ((direction & inputLevels) | (~direction & registers[PORT_REGISTERS.OLAT] & releasedLevels)) & 0xFF;
+  }
+}
@@ -0,0 +1,125 @@
+/*
+ * Node.js I2C io expanders - Simulated PCA9554 and PCA9557
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * Register-accurate simulation of the 8 bit PCA9554 (also TCA6408) and PCA9557 ICs.
+ */
+import { SimulatedRegisterChip } from './chip';
+
+/**
+ * Simulated PCA9554 IC. The TCA6408 has the same registers.
+ *
+ * Registers 0x00-0x03 are the input, output, polarity inversion and configuration registers.
+ * The register pointer does not advance. Input pins which are not driven externally are pulled high.
+ *
+ * The interrupt line is open-drain active low. It is activated when an input pin level changes and
+ * is reset by reading the input register.
+ */
+export class SimulatedPCA9554 extends SimulatedRegisterChip {
+
+  /** The output register. All high at power on. */
+  protected _output: number = 0xFF;
+
+  /** The polarity inversion register. */
+  protected _polarity: number;
+
+  /** The configuration register. All pins are inputs at power on. */
+  protected _config: number = 0xFF;
+
+  /** Input pin levels at the time of the last read of the input register. */
+  private _lastInputLevels: number;
+
+  /**
+   * Constructor for a new simulated chip.
+   * @param {number} polarity (optional) The polarity inversion register at power on. Defaults to 0x00 (not inverted).
+   */
+  constructor (polarity?: number) {
+    super(8);
+    this._polarity = polarity || 0x00;
+    this._lastInputLevels = this.getPinLevels() & this._config;
+  }
+
+  public getPinLevels (): number {
+    const inputLevels = ~this._drivenBitmask | this._drivenLevels;
+    return ((this._config & inputLevels) | (~this._config & this._output)) & this._allPinsBitmask;
+  }
+
+  protected _readRegister (register: number, sideEffects: boolean): number {
+    switch (register) {
+      case 0x00: {
+        const levels = this.getPinLevels();
+        if (sideEffects) {
+          // Reading the input register resets the change detection.
+          this._lastInputLevels = levels & this._config;
+        }
+        return (levels ^ this._polarity) & 0xFF;
+      }
+      case 0x01:
+        return this._output;
+      case 0x02:
+        return this._polarity;
+      case 0x03:
+        return this._config;
+      default:
+        throw new Error('Invalid register.');
+    }
+  }
+
+  protected _writeRegister (register: number, value: number): void {
+    switch (register) {
+      case 0x00:
+        // The input register is read-only.
+        break;
+      case 0x01:
+        this._output = value;
+        break;
+      case 0x02:
+        this._polarity = value;
+        break;
+      case 0x03: {
+        const previousConfig = this._config;
+        this._config = value;
+        // Pins which just became inputs start with their current level for the change detection.
+        const newInputs = this._config & ~previousConfig;
+        this._lastInputLevels = (this._lastInputLevels & ~newInputs) | (this.getPinLevels() & newInputs);
+        break;
+      }
+      default:
+        throw new Error('Invalid register.');
+    }
+  }
+
+  protected _nextRegister (register: number): number {
+    return register;
+  }
+
+  protected _update (): void {
+    this._setInterrupt(0, ((this.getPinLevels() ^ this._lastInputLevels) & this._config) !== 0);
+  }
+}
+
+/**
+ * Simulated PCA9557 IC.
+ *
+ * The registers are the same as of the PCA9554, but the polarity inversion register is 0xF0 at power on.
+ * Pin 0 is an open-drain output, so a high output releases the pin. Released pins are assumed to have an external pull-up.
+ * The IC has no interrupt line.
+ */
+export class SimulatedPCA9557 extends SimulatedPCA9554 {
+
+  constructor () {
+    super(0xF0);
+  }
+
+  public getPinLevels (): number {
+    // Pin 0 is only driven by the chip if the output is low.
+    const released = this._config | (this._output & 0x01);
+    const inputLevels = ~this._drivenBitmask | this._drivenLevels;
+    return ((released & inputLevels) | (~released & this._output)) & this._allPinsBitmask;
+  }
+
+  protected _update (): void {
+    // No interrupt line.
+  }
+}
@@ -0,0 +1,211 @@
+/*
+ * Node.js I2C io expanders - Simulated PCAL9555A
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * Register-accurate simulation of the PCAL9555A (also PCAL6416A) IC.
+ */
+import { SimulatedRegisterChip } from './chip';
+
+/**
+ * Simulated PCAL9555A IC. The PCAL6416A has the same registers.
+ *
+ * Registers 0x00-0x07 are the input, output, polarity inversion and configuration registers
+ * for port 0 and port 1, like on the CAT9555. The "agile I/O" registers are the output drive strength (0x40-0x43),
+ * input latch (0x44-0x45), pull-up/pull-down enable (0x46-0x47), pull-up/pull-down selection (0x48-0x49),
+ * interrupt mask (0x4A-0x4B), interrupt status (0x4C-0x4D) and output port configuration (0x4F) registers.
+ * The register pointer toggles between the two registers of a pair.
+ *
+ * Input pins which are not driven externally are at the level of their enabled pull-up or pull-down resistor,
+ * or high if no resistor is enabled.
+ *
+ * The interrupt line is open-drain active low. It is activated when the level of an unmasked input pin changes.
+ * For a pin with disabled input latch, the interrupt is reset if the pin returns to its previous level.
+ * For a pin with enabled input latch, the level after the change is latched and the interrupt stays active
+ * until the input register of the port is read, which returns the latched level.
+ * Reading the input register of a port resets the interrupt of this port.
+ */
+export class SimulatedPCAL9555A extends SimulatedRegisterChip {
+
+  /** The output registers. All high at power on. */
+  private _output: number = 0xFFFF;
+
+  /** The polarity inversion registers. Not inverted at power on. */
+  private _polarity: number = 0x0000;
+
+  /** The configuration registers. All pins are inputs at power on. */
+  private _config: number = 0xFFFF;
+
+  /** The output drive strength registers. Full drive strength at power on. */
+  private _driveStrength: number = 0xFFFFFFFF;
+
+  /** The input latch registers. Not latched at power on. */
+  private _latch: number = 0x0000;
+
+  /** The pull-up/pull-down enable registers. Disabled at power on. */
+  private _pullEnable: number = 0x0000;
+
+  /** The pull-up/pull-down selection registers. 1 = pull-up, 0 = pull-down. Pull-up at power on. */
+  private _pullSelect: number = 0xFFFF;
+
+  /** The interrupt mask registers. All interrupts are masked at power on. */
+  private _mask: number = 0xFFFF;
+
+  /** The output port configuration register. Push-pull outputs at power on. */
+  private _outputConfig: number = 0x00;
+
+  /** The interrupt status registers. */
+  private _status: number = 0x0000;
+
+  /** Bitmask of the latched input pins which have a latched level. */
+  private _latchedPins: number = 0x0000;
+
+  /** The latched levels of the latched input pins. */
+  private _latchedLevels: number = 0x0000;
+
+  /** Input pin levels at the time of the last read of the input registers. */
+  private _lastInputLevels: number;
+
+  constructor () {
+    super(16);
+    this._lastInputLevels = this.getPinLevels() & this._config;
+  }
+
+  public getPinLevels (): number {
+    // Released pins are at the level of the pull resistor, or high without one.
+    const releasedLevels = ~this._pullEnable | this._pullSelect;
+    const inputLevels = (~this._drivenBitmask & releasedLevels) | this._drivenLevels;
+    return ((this._config & inputLevels) | (~this._config & this._output)) & this._allPinsBitmask;
+  }
+
+  protected _readRegister (register: number, sideEffects: boolean): number {
+    const shift = 8 * (register & 0x01);
+    switch (register) {
+      case 0x00:
+      case 0x01: {
+        const mask = 0xFF << shift;
+        // Latched pins return their latched level.
+        const levels = (this.getPinLevels() & ~this._latchedPins) | (this._latchedLevels & this._latchedPins);
+        if (sideEffects) {
+          // Reading the input register of a port releases the latched levels and resets the change detection for this port.
+          this._lastInputLevels = (this._lastInputLevels & ~mask) | (levels & this._config & mask);
+          this._latchedPins &= ~mask;
+          // The interrupt is released by the read. A change of a latched pin after the latched one activates it again.
+          this._status &= ~mask;
+          this._setInterrupt(0, this._status !== 0);
+        }
+        return ((levels ^ this._polarity) >> shift) & 0xFF;
+      }
+      case 0x02:
+      case 0x03:
+        return (this._output >> shift) & 0xFF;
+      case 0x04:
+      case 0x05:
+        return (this._polarity >> shift) & 0xFF;
+      case 0x06:
+      case 0x07:
+        return (this._config >> shift) & 0xFF;
+      case 0x40:
+      case 0x41:
+      case 0x42:
+      case 0x43:
+        return (this._driveStrength >>> (8 * (register - 0x40))) & 0xFF;
+      case 0x44:
+      case 0x45:
+        return (this._latch >> shift) & 0xFF;
+      case 0x46:
+      case 0x47:
+        return (this._pullEnable >> shift) & 0xFF;
+      case 0x48:
+      case 0x49:
+        return (this._pullSelect >> shift) & 0xFF;
+      case 0x4A:
+      case 0x4B:
+        return (this._mask >> shift) & 0xFF;
+      case 0x4C:
+      case 0x4D:
+        return (this._status >> shift) & 0xFF;
+      case 0x4F:
+        return this._outputConfig;
+      default:
+        throw new Error('Invalid register.');
+    }
+  }
+
+  protected _writeRegister (register: number, value: number): void {
+    const shift = 8 * (register & 0x01);
+    const mask = 0xFF << shift;
+    switch (register) {
+      case 0x00:
+      case 0x01:
+      case 0x4C:
+      case 0x4D:
+        // Input and interrupt status registers are read-only.
+        break;
+      case 0x02:
+      case 0x03:
+        this._output = (this._output & ~mask) | (value << shift);
+        break;
+      case 0x04:
+      case 0x05:
+        this._polarity = (this._polarity & ~mask) | (value << shift);
+        break;
+      case 0x06:
+      case 0x07: {
+        const previousConfig = this._config;
+        this._config = (this._config & ~mask) | (value << shift);
+        // Pins which just became inputs start with their current level for the change detection.
+        const newInputs = this._config & ~previousConfig;
+        this._lastInputLevels = (this._lastInputLevels & ~newInputs) | (this.getPinLevels() & newInputs);
+        break;
+      }
+      case 0x40:
+      case 0x41:
+      case 0x42:
+      case 0x43: {
+        const driveShift = 8 * (register - 0x40);
+        this._driveStrength = ((this._driveStrength & ~(0xFF << driveShift)) | (value << driveShift)) >>> 0;
+        break;
+      }
+      case 0x44:
+      case 0x45:
+        this._latch = (this._latch & ~mask) | (value << shift);
+        // Pins without input latch release their latched level.
+        this._latchedPins &= this._latch;
+        break;
+      case 0x46:
+      case 0x47:
+        this._pullEnable = (this._pullEnable & ~mask) | (value << shift);
+        break;
+      case 0x48:
+      case 0x49:
+        this._pullSelect = (this._pullSelect & ~mask) | (value << shift);
+        break;
+      case 0x4A:
+      case 0x4B:
+        this._mask = (this._mask & ~mask) | (value << shift);
+        break;
+      case 0x4F:
+        this._outputConfig = value;
+        break;
+      default:
+        throw new Error('Invalid register.');
+    }
+  }
+
+  protected _nextRegister (register: number): number {
+    return (register === 0x4F) ? register : register ^ 0x01;
+  }
+
+  protected _update (): void {
+    const changed = (this.getPinLevels() ^ this._lastInputLevels) & this._config;
+
+    // Latch the level of latched pins at their first change since the last read.
+    const newLatched = changed & this._latch & ~this._latchedPins;
+    this._latchedLevels = (this._latchedLevels & ~newLatched) | (this.getPinLevels() & newLatched);
+    this._latchedPins |= newLatched;
+
+    this._status = ((changed & ~this._latch) | this._latchedPins) & ~this._mask & this._config;
+    this._setInterrupt(0, this._status !== 0);
+  }
+}
@@ -0,0 +1,98 @@
+/*
+ * Node.js I2C io expanders - Simulated PCF8574/PCF8574A and PCF8575
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * Register-accurate simulation of the quasi-bidirectional PCF8574/PCF8574A and PCF8575 ICs.
+ */
+import { SimulatedChip } from './chip';
+
+/**
+ * Common simulation of the PCF8574 and PCF8575.
+ *
+ * These ICs have no registers. Each pin has a latch which is written by an I2C write.
+ * A latch bit of 0 drives the pin low with a strong pull-down. A latch bit of 1 drives the pin
+ * high with a weak pull-up only, so an external device can pull it low. This is how the pin is
+ * used as an input. A read returns the levels of the pins.
+ *
+ * The interrupt line is open-drain active low. It is activated when a pin level changes and
+ * is reset by any read from or write to the chip.
+ */
+export abstract class SimulatedPCF857x extends SimulatedChip {
+
+  /** The output latch. All pins are high at power on. */
+  protected _latch: number;
+
+  /** Pin levels at the time of the last read or write. Used to detect changes for the interrupt. */
+  private _lastLevels: number;
+
+  constructor (pins: 8 | 16) {
+    super(pins);
+    this._latch = this._allPinsBitmask;
+    this._lastLevels = this.getPinLevels();
+  }
+
+  /**
+   * The current value of the output latch.
+   */
+  public get latch (): number {
+    return this._latch;
+  }
+
+  public getPinLevels (): number {
+    // A low latch bit always wins, a high latch bit gives way to an external low level.
+    return this._latch & (~this._drivenBitmask | this._drivenLevels) & this._allPinsBitmask;
+  }
+
+  public receive (length: number): Buffer {
+    const levels = this.getPinLevels();
+    const data = Buffer.alloc(length);
+    for (let i = 0; i < length; i++) {
+      // Reading more bytes than the chip has ports repeats the ports.
+      data[i] = (levels >> (8 * (i % (this.pins / 8)))) & 0xFF;
+    }
+    this._resetInterrupt();
+    return data;
+  }
+
+  public transmit (data: Buffer): void {
+    for (let i = 0; i < data.length; i++) {
+      // Writing more bytes than the chip has ports repeats the ports. The last write wins.
+      const shift = 8 * (i % (this.pins / 8));
+      this._latch = (this._latch & ~(0xFF << shift)) | (data[i] << shift);
+    }
+    this._resetInterrupt();
+  }
+
+  protected _update (): void {
+    if (this.getPinLevels() !== this._lastLevels) {
+      this._setInterrupt(0, true);
+    }
+  }
+
+  /**
+   * Reset the interrupt and remember the current pin levels for the change detection.
+   */
+  private _resetInterrupt (): void {
+    this._lastLevels = this.getPinLevels();
+    this._setInterrupt(0, false);
+  }
+}
+
+/**
+ * Simulated PCF8574/PCF8574A IC.
+ */
+export class SimulatedPCF8574 extends SimulatedPCF857x {
+  constructor () {
+    super(8);
+  }
+}
+
+/**
+ * Simulated PCF8575 IC.
+ */
+export class SimulatedPCF8575 extends SimulatedPCF857x {
+  constructor () {
+    super(16);
+  }
+}
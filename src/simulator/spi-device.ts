@@ -0,0 +1,116 @@
+/*
+ * Node.js I2C io expanders - Simulated SPI device
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * In-memory stand-in for a SPI device (one chip-select) which routes transfers to simulated MCP23S08/MCP23S17 chips.
+ */
+import { SpiTransport } from '../transports';
+import { SimulatedMCP230xx } from './mcp230xx';
+
+/**
+ * In-memory SPI device implementing the `transfer()` method used by `SpiTransport`.
+ *
+ * Each transfer is one selection of the chip-select. It starts with the opcode `0x40 | address << 1`,
+ * with the lowest bit set for a read, followed by the register. A simulated MCP23008 or MCP23017 is used
+ * as MCP23S08 or MCP23S17. A chip responds to its hardware address if IOCON.HAEN is set, otherwise to the
+ * hardware address 0 only. All callbacks are invoked asynchronously like those of a real device.
+ */
+export class SimulatedSpiDevice implements SpiTransport.Device {
+
+  /** Chips sharing the chip-select, keyed by hardware address. */
+  private _chips: Map<number, SimulatedMCP230xx> = new Map();
+
+  /** Errors to be returned by the next transfers. */
+  private _pendingErrors: Error[] = [];
+
+  /**
+   * Attach a chip to the chip-select.
+   * @param {number}            address The hardware address of the chip. (0 to 7)
+   * @param {SimulatedMCP230xx} chip    The chip.
+   * @return {SimulatedMCP230xx} The attached chip.
+   */
+  public attach<T extends SimulatedMCP230xx> (address: number, chip: T): T {
+    if (address < 0 || address > 7) {
+      throw new Error('Address out of range.');
+    }
+    if (this._chips.has(address)) {
+      throw new Error('Address already in use.');
+    }
+    this._chips.set(address, chip);
+    return chip;
+  }
+
+  /**
+   * Detach the chip with the given hardware address.
+   * @param {number} address The hardware address of the chip.
+   */
+  public detach (address: number): void {
+    this._chips.delete(address);
+  }
+
+  /**
+   * Let the next transfer fail with the given error.
+   * @param {Error} err (optional) The error. Defaults to an I/O error.
+   */
+  public failNextTransfer (err?: Error): void {
+    this._pendingErrors.push(err || new Error('Input/output error'));
+  }
+
+  public transfer (message: SpiTransport.Transfer[], callback: (err: Error | null | undefined, message: SpiTransport.Transfer[]) => void): void {
+    setImmediate(() => {
+      const err = this._pendingErrors.shift();
+      if (err) {
+        callback(err, message);
+        return;
+      }
+
+      try {
+        for (const transfer of message) {
+          this._transfer(transfer);
+        }
+      } catch (e) {
+        callback(<Error>e, message);
+        return;
+      }
+      callback(null, message);
+    });
+  }
+
+  /**
+   * Process a single transfer.
+   */
+  private _transfer (transfer: SpiTransport.Transfer): void {
+    const send = transfer.sendBuffer || Buffer.alloc(transfer.byteLength);
+    // Pins of no chip drive the data output, so it reads high.
+    const receive = Buffer.alloc(transfer.byteLength, 0xFF);
+    if (transfer.byteLength >= 2 && (send[0] & 0xF0) === 0x40) {
+      const address = (send[0] >> 1) & 0x07;
+      const read = (send[0] & 0x01) !== 0;
+      for (const chip of this._respondingChips(address)) {
+        if (read) {
+          chip.transmit(send.subarray(1, 2));
+          chip.receive(transfer.byteLength - 2).copy(receive, 2);
+        } else {
+          chip.transmit(send.subarray(1, transfer.byteLength));
+        }
+      }
+    }
+    if (transfer.receiveBuffer) {
+      receive.copy(transfer.receiveBuffer);
+    }
+  }
+
+  /**
+   * Returns the chips which respond to the given hardware address.
+   */
+  private _respondingChips (address: number): SimulatedMCP230xx[] {
+    const chips: SimulatedMCP230xx[] = [];
+    this._chips.forEach((chip, chipAddress) => {
+      if ((chip.isHardwareAddressEnabled() ? chipAddress : 0) === address) {
+        chips.push(chip);
+      }
+    });
+    return chips;
+  }
+}
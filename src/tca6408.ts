@@ -0,0 +1,100 @@
+/*
+ * Node.js TCA6408
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * Node.js module for controlling each pin of a TCA6408 I2C port expander IC.
+ */
+import { I2CBus } from 'i2c-bus';
+
+import { IOExpander } from './ioExpander';
+
+// By annotating an enum option, you set the value;
+// increments continue from that value:
+
+enum TCA6408_REGISTERS {
+  // The Input register is used to read data from the port.
+  INPUT_PORT = 0x00,
+  // The Output register is used to write data to the port.
+  OUTPUT_PORT = 0x01,
+  // The Polarity Inversion register is not used except to write 0's.  Internally we use the _inverted bitmask to control pin state inversion.
+  POL_INV = 0x02,
+  // The Config register is used to specify a pin as input (1 bit-value) or output (0 bit-value).
+  CON_PORT = 0x03
+}
+
+/**
+ * Namespace for types for TCA6408
+ */
+export namespace TCA6408 {
+  /**
+   * A pin number from 0 to 7
+   * @type {number}
+   */
+  export type PinNumber = IOExpander.PinNumber8;
+
+  /**
+   * Possible pin directions.
+   * 0 = out, 1 = in, -1 = undefined
+   */
+  export type PinDirection = IOExpander.PinDirection;
+
+  /**
+   * Data of an 'input' event
+   * @type {Object}
+   */
+  export type InputData = IOExpander.InputData<PinNumber>;
+
+  /**
+   * Options for the instance.
+   */
+  export type Options = IOExpander.Options;
+}
+
+/**
+ * Class for handling a TCA6408 IC, a low voltage (1.65 V to 5.5 V) 8 bit port expander.
+ *
+ * At power on, all pins are inputs with the output register set high and no polarity inversion.
+ */
+export class TCA6408 extends IOExpander<IOExpander.PinNumber8> {
+
+  /** Number of pins the IC has. */
+  protected _pins = <const>8;
+
+  /**
+   * Constructor for a new TCA6408 instance.
+   * If you use this IC with one or more input pins, you have to call ...
+   *  a) enableInterrupt(gpioPin) to detect interrupts from the IC using a GPIO pin, or
+   *  b) doPoll() frequently enough to detect input changes with manually polling.
+   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus, or a transport for other buses.
+   * @param  {number}         address      The address of the TCA6408 IC. (0x20 or 0x21)
+   * @param  {Options}        options      (optional) Options for the instance, e.g. a bus arbiter.
+   */
+  constructor (i2cBus: I2CBus | IOExpander.Transport, address: number, options?: TCA6408.Options) {
+    if (address < 0x20 || address > 0x21) {
+      throw new Error('Address out of range.');
+    }
+    super(i2cBus, address, options);
+  }
+
+  protected async _initializeChip (initialHardwareState: number) : Promise<void> {
+    // On startup, Force no Polarity Invert as we will manage this in software with the _inverted bitField.
+    await this._writeChipRegister(TCA6408_REGISTERS.POL_INV, 1, 0x00);
+    // Set pins marked as input.
+    await this._writeChipRegister(TCA6408_REGISTERS.CON_PORT, 1, this._inputPinBitmask);
+    // Write the initial state which should have no effect as all ports set as input but ensures output register is set appropriately.
+    await this._writeChipRegister(TCA6408_REGISTERS.OUTPUT_PORT, 1, initialHardwareState);
+  }
+
+  protected _readState () : Promise<number> {
+    return this._readChipRegister(TCA6408_REGISTERS.INPUT_PORT, 1);
+  }
+
+  protected _writeState (state: number) : Promise<void> {
+    return this._writeChipRegister(TCA6408_REGISTERS.OUTPUT_PORT, 1, state);
+  }
+
+  protected _writeDirection (inputPinBitmask: number) : Promise<void> {
+    return this._writeChipRegister(TCA6408_REGISTERS.CON_PORT, 1, inputPinBitmask);
+  }
+}
@@ -0,0 +1,64 @@
+/*
+ * Node.js TCA6416
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * Node.js module for controlling each pin of a TCA6416 I2C port expander IC.
+ * This IC is register compatible with the CAT9555.
+ */
+import { I2CBus } from 'i2c-bus';
+
+import { CAT9555 } from './cat9555';
+import { IOExpander } from './ioExpander';
+
+/**
+ * Namespace for types for TCA6416
+ */
+export namespace TCA6416 {
+  /**
+   * A pin number from 0 to 15
+   * @type {number}
+   */
+  export type PinNumber = IOExpander.PinNumber16;
+
+  /**
+   * Possible pin directions.
+   * 0 = out, 1 = in, -1 = undefined
+   */
+  export type PinDirection = IOExpander.PinDirection;
+
+  /**
+   * Data of an 'input' event
+   * @type {Object}
+   */
+  export type InputData = IOExpander.InputData<PinNumber>;
+
+  /**
+   * Options for the instance.
+   */
+  export type Options = CAT9555.Options;
+}
+
+/**
+ * Class for handling a TCA6416 IC, a low voltage (1.65 V to 5.5 V) 16 bit port expander.
+ *
+ * At power on, all pins are inputs with the output registers set high and no polarity inversion.
+ */
+export class TCA6416 extends CAT9555 {
+
+  /**
+   * Constructor for a new TCA6416 instance.
+   * If you use this IC with one or more input pins, you have to call ...
+   *  a) enableInterrupt(gpioPin) to detect interrupts from the IC using a GPIO pin, or
+   *  b) doPoll() frequently enough to detect input changes with manually polling.
+   * @param  {I2cBus}         i2cBus       Instance of an opened i2c-bus, or a transport for other buses.
+   * @param  {number}         address      The address of the TCA6416 IC. (0x20 or 0x21)
+   * @param  {Options}        options      (optional) Options for the instance, e.g. a bus arbiter.
+   */
+  constructor (i2cBus: I2CBus | IOExpander.Transport, address: number, options?: TCA6416.Options) {
+    if (address < 0x20 || address > 0x21) {
+      throw new Error('Address out of range.');
+    }
+    super(i2cBus, address, options);
+  }
+}
@@ -0,0 +1,200 @@
+/*
+ * Node.js I2C io expanders - Transports
+ *
+ * Copyright (c) 2026 Lyndel McGee <lynniemagoo@yahoo.com>
+ *
+ * Built-in transports for the register reads and writes of `IOExpander`, over I2C or SPI.
+ */
+import { I2CBus } from 'i2c-bus';
+
+import { IOExpander } from './ioExpander';
+
+/**
+ * Transport over an I2C bus opened with the i2c-bus package.
+ *
+ * Used by all expander classes if an `I2CBus` is passed to the constructor.
+ */
+export class I2CTransport implements IOExpander.Transport {
+
+  /** The I2C bus. */
+  public readonly bus: I2CBus;
+
+  /**
+   * Constructor for a new I2CTransport.
+   * @param {I2CBus} i2cBus Instance of an opened i2c-bus.
+   */
+  constructor (i2cBus: I2CBus) {
+    this.bus = i2cBus;
+  }
+
+  public read (address: number, byteCount: number): Promise<Buffer> {
+    return new Promise<Buffer>((resolve: (data: Buffer) => void, reject: (err: Error) => void) => {
+      this.bus.i2cRead(address, byteCount, Buffer.alloc(byteCount), (err, bytesRead, buffer) => {
+        if (err || bytesRead !== byteCount) {
+          reject(err);
+        } else {
+          resolve(buffer);
+        }
+      });
+    });
+  }
+
+  public write (address: number, data: Buffer): Promise<void> {
+    return new Promise<void>((resolve: () => void, reject: (err: Error) => void) => {
+      this.bus.i2cWrite(address, data.length, data, (err, bytesWritten) => {
+        if (err || bytesWritten !== data.length) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  public readRegister (address: number, register: number, byteCount: number): Promise<Buffer> {
+    return new Promise<Buffer>((resolve: (data: Buffer) => void, reject: (err: Error) => void) => {
+      this.bus.readI2cBlock(address, register & 0xFF, byteCount, Buffer.alloc(byteCount), (err, bytesRead, buffer) => {
+        if (err || bytesRead !== byteCount) {
+          reject(err);
+        } else {
+          resolve(buffer);
+        }
+      });
+    });
+  }
+
+  public writeRegister (address: number, register: number, data: Buffer): Promise<void> {
+    return new Promise<void>((resolve: () => void, reject: (err: Error) => void) => {
+      this.bus.writeI2cBlock(address, register & 0xFF, data.length, data, (err, bytesWritten) => {
+        if (err || bytesWritten !== data.length) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Namespace for types for SpiTransport
+ */
+export namespace SpiTransport {
+  /**
+   * A single transfer of a message to a SPI device, as used by the spi-device package.
+   */
+  export interface Transfer {
+    /** Count of bytes to transfer. */
+    byteLength: number;
+
+    /** (optional) The bytes to send. */
+    sendBuffer?: Buffer;
+
+    /** (optional) Buffer for the received bytes. */
+    receiveBuffer?: Buffer;
+
+    /** (optional) Clock frequency of the transfer in Hz. */
+    speedHz?: number;
+  }
+
+  /**
+   * A SPI device (spidev) with the `transfer()` method of the spi-device package, e.g. from `spi.openSync(0, 0)`.
+   */
+  export interface Device {
+    /**
+     * Transfer a message to the device. The chip-select is active during each transfer of the message.
+     * @param {Array}    message  The transfers of the message.
+     * @param {Function} callback Callback which gets called when the message is transferred.
+     */
+    transfer (message: Transfer[], callback: (err: Error | null | undefined, message: Transfer[]) => void): unknown;
+  }
+
+  /**
+   * Options for a SpiTransport.
+   */
+  export interface Options {
+    /**
+     * Clock frequency of the transfers in Hz. Defaults to the frequency of the device.
+     */
+    speedHz?: number;
+  }
+}
+
+/**
+ * Transport over a SPI device for the MCP23S08 and MCP23S17.
+ *
+ * Each transfer starts with the opcode `0x40 | address << 1` (read: `0x41 | address << 1`), followed by the register.
+ * The address is the hardware address (0 to 7) of the IC, which is only used by the IC if hardware addressing (HAEN)
+ * is enabled. So several ICs can share one chip-select.
+ */
+export class SpiTransport implements IOExpander.Transport {
+
+  /** Opcode of a write to hardware address 0. */
+  public static readonly OPCODE_WRITE = 0x40;
+
+  /** Opcode of a read from hardware address 0. */
+  public static readonly OPCODE_READ = 0x41;
+
+  /** The SPI device. */
+  public readonly bus: SpiTransport.Device;
+
+  /** Clock frequency of the transfers, or undefined to use the frequency of the device. */
+  private _speedHz: number | undefined;
+
+  /**
+   * Constructor for a new SpiTransport.
+   * @param {Device}  device  The opened SPI device.
+   * @param {Options} options (optional) Options for the transfers.
+   */
+  constructor (device: SpiTransport.Device, options?: SpiTransport.Options) {
+    this.bus = device;
+    this._speedHz = options ? options.speedHz : undefined;
+  }
+
+  public read (): Promise<Buffer> {
+    return Promise.reject(new Error('SPI transfers require a register.'));
+  }
+
+  public write (): Promise<void> {
+    return Promise.reject(new Error('SPI transfers require a register.'));
+  }
+
+  public async readRegister (address: number, register: number, byteCount: number): Promise<Buffer> {
+    const sendBuffer = Buffer.alloc(2 + byteCount);
+    sendBuffer[0] = SpiTransport.OPCODE_READ | ((address & 0x07) << 1);
+    sendBuffer[1] = register & 0xFF;
+    const receiveBuffer = await this._transfer(sendBuffer);
+    // The IC sends the data after the opcode and the register.
+    return receiveBuffer.subarray(2);
+  }
+
+  public async writeRegister (address: number, register: number, data: Buffer): Promise<void> {
+    const header = Buffer.from([SpiTransport.OPCODE_WRITE | ((address & 0x07) << 1), register & 0xFF]);
+    await this._transfer(Buffer.concat([header, data]));
+  }
+
+  /**
+   * Internal function to transfer the given bytes in one transfer.
+   * @param  {Buffer}  sendBuffer The bytes to send.
+   * @return {Promise} Promise which gets resolved with the received bytes, or rejected in case of an error.
+   */
+  private _transfer (sendBuffer: Buffer): Promise<Buffer> {
+    return new Promise<Buffer>((resolve: (data: Buffer) => void, reject: (err: Error) => void) => {
+      const transfer: SpiTransport.Transfer = {
+        byteLength: sendBuffer.length,
+        sendBuffer: sendBuffer,
+        receiveBuffer: Buffer.alloc(sendBuffer.length)
+      };
+      if (typeof (this._speedHz) === 'number') {
+        transfer.speedHz = this._speedHz;
+      }
+      this.bus.transfer([transfer], (err, message) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(<Buffer>message[0].receiveBuffer);
+        }
+      });
+    });
+  }
+}
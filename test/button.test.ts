@@ -0,0 +1,178 @@
+import * as FakeTimers from '@sinonjs/fake-timers';
+import * as assert from 'assert';
+import { performance } from 'perf_hooks';
+
+import { Button } from '../src/button';
+import { PCF8574 } from '../src/pcf8574';
+import { SimulatedI2CBus, SimulatedPCF8574 } from '../src/simulator';
+
+describe('Button', () => {
+  const now = performance.now;
+  let clock: FakeTimers.InstalledClock;
+  let bus: SimulatedI2CBus;
+  let simChip: SimulatedPCF8574;
+  let chip: PCF8574;
+  let button: Button<PCF8574.PinNumber>;
+  let events: string[];
+
+  // Set the level of the button pin and process the change.
+  const level = async (high: boolean): Promise<void> => {
+    simChip.setInputLevel(0, high);
+    await chip.doPoll();
+  };
+
+  const createButton = (options?: Button.Options): void => {
+    button = new Button(chip, 0, options);
+    for (const event of ['press', 'click', 'doubleClick', 'longPress']) {
+      button.on(event as 'press', () => events.push(event));
+    }
+    button.on('release', (duration) => events.push(`release ${duration}`));
+    button.on('repeat', (count) => events.push(`repeat ${count}`));
+  };
+
+  beforeEach(async () => {
+    // The simulated bus uses setImmediate, so only fake the timers and the time used by the button.
+    clock = FakeTimers.install({ toFake: ['setTimeout', 'clearTimeout'] });
+    // The timestamps of the input events are taken from perf_hooks, which is not faked.
+    performance.now = (): number => clock.now;
+    bus = new SimulatedI2CBus();
+    simChip = bus.attach(0x20, new SimulatedPCF8574());
+    chip = new PCF8574(bus.asI2CBus(), 0x20);
+    await chip.initialize(true);
+    // Active low button.
+    await chip.inputPin(0, true);
+    events = [];
+  });
+
+  afterEach(async () => {
+    button.close();
+    await chip.close();
+    clock.uninstall();
+    performance.now = now;
+  });
+
+  it('should emit press, release and click', async () => {
+    createButton({ doubleClickTime: 0 });
+    await level(false);
+    assert.strictEqual(button.isPressed(), true);
+    clock.tick(50);
+    await level(true);
+    assert.strictEqual(button.isPressed(), false);
+    assert.deepStrictEqual(events, ['press', 'release 50', 'click']);
+  });
+
+  it('should delay a click by the double click time', async () => {
+    createButton();
+    await level(false);
+    await level(true);
+    clock.tick(299);
+    assert.deepStrictEqual(events, ['press', 'release 0']);
+    clock.tick(1);
+    assert.deepStrictEqual(events, ['press', 'release 0', 'click']);
+  });
+
+  it('should emit a double click', async () => {
+    createButton();
+    await level(false);
+    await level(true);
+    clock.tick(200);
+    await level(false);
+    // The second press may be longer than the double click time.
+    clock.tick(400);
+    await level(true);
+    clock.tick(1000);
+    assert.deepStrictEqual(events, ['press', 'release 0', 'press', 'release 400', 'doubleClick']);
+  });
+
+  it('should emit a long press and repeat events instead of a click', async () => {
+    createButton({ longPressTime: 500, repeatInterval: 100 });
+    await level(false);
+    clock.tick(499);
+    assert.deepStrictEqual(events, ['press']);
+    clock.tick(1);
+    assert.deepStrictEqual(events, ['press', 'longPress']);
+    clock.tick(250);
+    await level(true);
+    clock.tick(1000);
+    assert.deepStrictEqual(events, ['press', 'longPress', 'repeat 1', 'repeat 2', 'release 750']);
+  });
+
+  it('should not repeat with a repeat interval of 0', async () => {
+    createButton({ longPressTime: 500, repeatInterval: 0 });
+    await level(false);
+    clock.tick(2000);
+    assert.deepStrictEqual(events, ['press', 'longPress']);
+  });
+
+  it('should measure the times from the read of the input', () => {
+    createButton({ longPressTime: 500, doubleClickTime: 0 });
+    // The events are processed 100ms after the read, e.g. because of a slow listener.
+    clock.tick(1000);
+    chip.emit('input:0', { pin: 0, value: true, timestamp: clock.now - 100 });
+    clock.tick(399);
+    assert.deepStrictEqual(events, ['press']);
+    clock.tick(1);
+    assert.deepStrictEqual(events, ['press', 'longPress']);
+
+    clock.tick(100);
+    chip.emit('input:0', { pin: 0, value: false, timestamp: clock.now - 100 });
+    assert.deepStrictEqual(events, ['press', 'longPress', 'release 500']);
+  });
+
+  it('should stop when the expander is closed while the button is held', async () => {
+    createButton({ longPressTime: 500, repeatInterval: 100 });
+    await level(false);
+    clock.tick(600);
+    assert.deepStrictEqual(events, ['press', 'longPress', 'repeat 1']);
+
+    await chip.close();
+    clock.tick(1000);
+    assert.deepStrictEqual(events, ['press', 'longPress', 'repeat 1']);
+    assert.strictEqual(button.isPressed(), false);
+    assert.strictEqual(clock.countTimers(), 0);
+  });
+
+  it('should use the pressed value', async () => {
+    await chip.inputPin(0, false);
+    createButton({ pressedValue: false, doubleClickTime: 0 });
+    await level(false);
+    await level(true);
+    assert.deepStrictEqual(events, ['press', 'release 0', 'click']);
+  });
+
+  it('should pass the pin to the listeners', async () => {
+    await chip.inputPin(1, true);
+    createButton({ doubleClickTime: 0 });
+    const other = new Button(chip, 1, { doubleClickTime: 0 });
+    const pins: number[] = [];
+    const listener = (pin: PCF8574.PinNumber): number => pins.push(pin);
+    button.on('click', listener);
+    other.on('click', listener);
+    other.on('release', (duration, pin) => pins.push(pin));
+
+    simChip.setInputLevel(1, false);
+    await chip.doPoll();
+    simChip.setInputLevel(1, true);
+    await chip.doPoll();
+    await level(false);
+    await level(true);
+    assert.deepStrictEqual(pins, [1, 1, 0]);
+    other.close();
+  });
+
+  it('should stop watching the pin when closed', async () => {
+    createButton();
+    await level(false);
+    button.close();
+    await level(true);
+    clock.tick(2000);
+    assert.deepStrictEqual(events, ['press']);
+    assert.strictEqual(chip.listenerCount('input:0'), 0);
+  });
+
+  it('should reject invalid times', () => {
+    assert.throws(() => new Button(chip, 0, { longPressTime: -1 }), /Button time out of range/);
+    assert.throws(() => new Button(chip, 0, { repeatInterval: NaN }), /Button time out of range/);
+    createButton();
+  });
+});
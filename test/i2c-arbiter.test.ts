@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+import { once } from 'events';
+
+import { I2CArbiter } from '../src/i2c-arbiter';
+import { EventInterruptSource } from '../src/interrupt-sources';
+import { PCF8574 } from '../src/pcf8574';
+import { SimulatedI2CBus, SimulatedPCF8574 } from '../src/simulator';
+
+/**
+ * Returns a Promise which is resolved when the returned release function is called.
+ */
+const blocker = (): [Promise<void>, () => void] => {
+  let release: () => void = () => undefined;
+  const promise = new Promise<void>((resolve) => { release = resolve; });
+  return [promise, release];
+};
+
+describe('I2CArbiter', () => {
+
+  it('should run one operation at a time ordered by priority', async () => {
+    const arbiter = new I2CArbiter();
+    const log: string[] = [];
+    const [blocked, release] = blocker();
+
+    const task = (name: string) => async (): Promise<string> => {
+      log.push(name);
+      return name;
+    };
+
+    const running = arbiter.run(() => blocked);
+    const results = Promise.all([
+      arbiter.run(task('low'), -1),
+      arbiter.run(task('default 1')),
+      arbiter.run(task('high'), 5),
+      arbiter.run(task('default 2'), I2CArbiter.PRIORITY_DEFAULT)
+    ]);
+    assert.strictEqual(arbiter.isIdle(), false);
+
+    release();
+    await running;
+    assert.deepStrictEqual(await results, ['low', 'default 1', 'high', 'default 2']);
+    assert.deepStrictEqual(log, ['high', 'default 1', 'default 2', 'low']);
+    assert.strictEqual(arbiter.isIdle(), true);
+  });
+
+  it('should continue with the next operation after a failure', async () => {
+    const arbiter = new I2CArbiter();
+
+    const failing = arbiter.run(() => Promise.reject(new Error('failed')));
+    const throwing = arbiter.run(() => { throw new Error('thrown'); });
+    const succeeding = arbiter.run(() => Promise.resolve(42));
+
+    await assert.rejects(failing, /failed/);
+    await assert.rejects(throwing, /thrown/);
+    assert.strictEqual(await succeeding, 42);
+  });
+
+  describe('with expanders', () => {
+    let bus: SimulatedI2CBus;
+    let simChip1: SimulatedPCF8574;
+    let arbiter: I2CArbiter;
+    let chip1: PCF8574;
+    let chip2: PCF8574;
+
+    beforeEach(async () => {
+      bus = new SimulatedI2CBus();
+      simChip1 = bus.attach(0x20, new SimulatedPCF8574());
+      bus.attach(0x21, new SimulatedPCF8574());
+      arbiter = new I2CArbiter();
+      chip1 = new PCF8574(bus.asI2CBus(), 0x20, { arbiter });
+      chip2 = new PCF8574(bus.asI2CBus(), 0x21, { arbiter });
+      await chip1.initialize(true);
+      await chip2.initialize(true);
+      await chip1.inputPin(0, false);
+      await chip2.inputPin(0, false);
+      bus.clearTransactions();
+    });
+
+    afterEach(async () => {
+      await chip1.close();
+      await chip2.close();
+    });
+
+    it('should serialise the transactions with other devices on the bus', async () => {
+      const [blocked, release] = blocker();
+      const foreign = arbiter.run(() => blocked);
+
+      const polls = Promise.all([chip1.doPoll(), chip2.doPoll()]);
+      // Give the bus the chance to process transactions.
+      await new Promise((resolve) => setImmediate(resolve));
+      assert.deepStrictEqual(bus.transactions, []);
+
+      release();
+      await foreign;
+      await polls;
+      assert.deepStrictEqual(bus.transactions.map((t) => t.address), [0x20, 0x21]);
+    });
+
+    it('should run the transactions of interrupt triggered polls first', async () => {
+      const source = new EventInterruptSource();
+      await chip1.enableInterrupt(source);
+      bus.clearTransactions();
+
+      const [blocked, release] = blocker();
+      const foreign = arbiter.run(() => blocked);
+
+      // A background poll of chip 2 is requested before the interrupt of chip 1.
+      const poll = chip2.doPoll();
+      simChip1.setInputLevel(0, false);
+      const interrupt = once(chip1, 'interrupt');
+      source.trigger();
+
+      release();
+      await foreign;
+      await poll;
+      await interrupt;
+      assert.deepStrictEqual(bus.transactions.map((t) => t.address), [0x20, 0x21]);
+    });
+
+    it('should use the configured priorities', async () => {
+      const lowChip = new PCF8574(bus.asI2CBus(), 0x21, { arbiter, priority: -1 });
+      await lowChip.initialize(true);
+      bus.clearTransactions();
+
+      const [blocked, release] = blocker();
+      const foreign = arbiter.run(() => blocked);
+      const polls = Promise.all([lowChip.doPoll(), chip1.doPoll()]);
+
+      release();
+      await foreign;
+      await polls;
+      assert.deepStrictEqual(bus.transactions.map((t) => t.address), [0x20, 0x21]);
+    });
+  });
+});
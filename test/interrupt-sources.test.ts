@@ -0,0 +1,212 @@
+import * as assert from 'assert';
+import { EventEmitter, once } from 'events';
+
+import { EventInterruptSource, ExpanderPinInterruptSource, GpiodInterruptSource } from '../src/interrupt-sources';
+import { IOExpander } from '../src/ioExpander';
+import { MCP23017 } from '../src/mcp23017';
+import { PCF8574 } from '../src/pcf8574';
+import { SimulatedI2CBus, SimulatedMCP23017, SimulatedPCF8574 } from '../src/simulator';
+
+describe('Interrupt sources', () => {
+  let bus: SimulatedI2CBus;
+  let simChip: SimulatedPCF8574;
+  let chip: PCF8574;
+  let inputs: Pick<IOExpander.InputData<PCF8574.PinNumber>, 'pin' | 'value'>[];
+
+  beforeEach(async () => {
+    bus = new SimulatedI2CBus();
+    simChip = bus.attach(0x20, new SimulatedPCF8574());
+    chip = new PCF8574(bus.asI2CBus(), 0x20);
+    inputs = [];
+    chip.on('input', (data) => inputs.push({ pin: data.pin, value: data.value }));
+    await chip.initialize(true);
+    await chip.inputPin(3, false);
+  });
+
+  afterEach(() => chip.close());
+
+  describe('enableInterrupt()', () => {
+    it('should poll the chip on each interrupt and emit an interrupt event', async () => {
+      const source = new EventInterruptSource(simChip);
+      await chip.enableInterrupt(source);
+
+      const interrupt = once(chip, 'interrupt');
+      simChip.setInputLevel(3, false);
+      assert.deepStrictEqual(await interrupt, [true]);
+      assert.deepStrictEqual(inputs, [{ pin: 3, value: false }]);
+    });
+
+    it('should emit an unprocessed interrupt event if the poll fails', async () => {
+      const source = new EventInterruptSource();
+      await chip.enableInterrupt(source);
+
+      const interrupt = once(chip, 'interrupt');
+      bus.failNextTransaction();
+      source.trigger();
+      assert.deepStrictEqual(await interrupt, [false]);
+    });
+
+    it('should reject if already enabled', async () => {
+      await chip.enableInterrupt(new EventInterruptSource());
+      await assert.rejects(chip.enableInterrupt(new EventInterruptSource()), /GPIO interrupt already enabled/);
+    });
+
+    it('should reject an invalid source', async () => {
+      await assert.rejects(chip.enableInterrupt({} as IOExpander.InterruptSource), /Invalid interrupt source/);
+    });
+
+    it('should enable and disable the chip interrupts', async () => {
+      const simMcp = bus.attach(0x21, new SimulatedMCP23017());
+      const mcp = new MCP23017(bus.asI2CBus(), 0x21);
+      await mcp.initialize(true);
+      await mcp.outputPin(0, false, false);
+
+      await mcp.enableInterrupt(new EventInterruptSource());
+      assert.strictEqual(simMcp.peekRegister(0x04), 0xFE);
+      assert.strictEqual(simMcp.peekRegister(0x05), 0xFF);
+
+      await mcp.disableInterrupt();
+      assert.strictEqual(simMcp.peekRegister(0x04), 0x00);
+      assert.strictEqual(simMcp.peekRegister(0x05), 0x00);
+      await mcp.close();
+    });
+  });
+
+  describe('disableInterrupt()', () => {
+    it('should stop watching the source', async () => {
+      const source = new EventInterruptSource();
+      await chip.enableInterrupt(source);
+      await chip.disableInterrupt();
+
+      let interrupts = 0;
+      chip.on('interrupt', () => interrupts++);
+      source.trigger();
+      await chip.doPoll();
+      assert.strictEqual(interrupts, 0);
+
+      // Enabling again is possible after disabling.
+      await chip.enableInterrupt(source);
+    });
+
+    it('should do nothing if no interrupt is enabled', async () => {
+      await chip.disableInterrupt();
+    });
+  });
+
+  describe('EventInterruptSource', () => {
+    it('should trigger on events of the emitter until closed', () => {
+      const emitter = new EventEmitter();
+      const source = new EventInterruptSource(emitter, 'irq');
+      let count = 0;
+      const callback = (): void => { count++; };
+      source.watch(callback);
+
+      emitter.emit('irq');
+      source.trigger();
+      assert.strictEqual(count, 2);
+
+      source.close();
+      emitter.emit('irq');
+      assert.strictEqual(count, 2);
+      assert.strictEqual(emitter.listenerCount('irq'), 0);
+
+      source.unwatch(callback);
+      source.trigger();
+      assert.strictEqual(count, 2);
+    });
+  });
+
+  describe('ExpanderPinInterruptSource', () => {
+    it('should trigger when the input pin of the other expander gets active', async () => {
+      const source = new ExpanderPinInterruptSource(chip, 3);
+      let count = 0;
+      const callback = (): void => { count++; };
+      source.watch(callback);
+
+      simChip.setInputLevel(3, false);
+      await chip.doPoll();
+      assert.strictEqual(count, 1);
+
+      // Getting inactive is no interrupt.
+      simChip.setInputLevel(3, true);
+      await chip.doPoll();
+      assert.strictEqual(count, 1);
+
+      source.unwatch(callback);
+      simChip.setInputLevel(3, false);
+      await chip.doPoll();
+      assert.strictEqual(count, 1);
+    });
+
+    it('should support active high lines', async () => {
+      const source = new ExpanderPinInterruptSource(chip, 3, true);
+      let count = 0;
+      source.watch(() => { count++; });
+
+      simChip.setInputLevel(3, false);
+      await chip.doPoll();
+      simChip.setInputLevel(3, true);
+      await chip.doPoll();
+      assert.strictEqual(count, 1);
+    });
+
+    it('should drive the interrupt of a cascaded expander', async () => {
+      // The INTA line of the MCP23017 is connected to pin 3 of the PCF8574.
+      const simMcp = bus.attach(0x21, new SimulatedMCP23017());
+      simMcp.on('interrupt', () => simChip.setInputLevel(3, simMcp.getInterruptLevel(0)));
+      const mcp = new MCP23017(bus.asI2CBus(), 0x21);
+      await mcp.initialize(true);
+      await mcp.inputPin(0, false);
+      await mcp.enableInterrupt(new ExpanderPinInterruptSource(chip, 3));
+
+      const mcpInputs: Pick<MCP23017.InputData, 'pin' | 'value'>[] = [];
+      mcp.on('input', (data) => mcpInputs.push({ pin: data.pin, value: data.value }));
+      const interrupt = once(mcp, 'interrupt');
+      simMcp.setInputLevel(0, false);
+      await chip.doPoll();
+      await interrupt;
+      assert.deepStrictEqual(mcpInputs, [{ pin: 0, value: false }]);
+      await mcp.close();
+    });
+  });
+
+  describe('GpiodInterruptSource', () => {
+    it('should reject an invalid line', () => {
+      assert.throws(() => new GpiodInterruptSource(-1), /Line out of range/);
+    });
+
+    it('should trigger for each line printed by the monitor process', async () => {
+      // `echo` prints its arguments as a single line and exits.
+      const source = new GpiodInterruptSource(17, { command: 'echo' });
+      let count = 0;
+      source.watch(() => { count++; });
+
+      const [err] = await once(source, 'error');
+      assert.match(err.message, /gpiomon exited unexpectedly/);
+      assert.strictEqual(count, 1);
+    });
+
+    it('should emit an error if the monitor process can not be started', async () => {
+      const source = new GpiodInterruptSource(17, { command: 'gpiomon-which-does-not-exist' });
+      source.watch(() => undefined);
+      const [err] = await once(source, 'error');
+      assert.strictEqual(err.code, 'ENOENT');
+    });
+
+    it('should forward errors to the expander without crashing', async () => {
+      const source = new GpiodInterruptSource(17, { command: 'gpiomon-which-does-not-exist' });
+      const interrupt = once(chip, 'interrupt');
+      await chip.enableInterrupt(source);
+      assert.deepStrictEqual(await interrupt, [false]);
+
+      // With a listener, the error is emitted by the expander.
+      await chip.disableInterrupt();
+      const error = once(chip, 'error');
+      await chip.enableInterrupt(source);
+      const [err] = await error;
+      assert.strictEqual(err.code, 'ENOENT');
+      await chip.disableInterrupt();
+      assert.strictEqual(source.listenerCount('error'), 0);
+    });
+  });
+});
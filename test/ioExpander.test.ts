@@ -0,0 +1,1222 @@
+import * as FakeTimers from '@sinonjs/fake-timers';
+import * as assert from 'assert';
+import { once } from 'events';
+import { performance } from 'perf_hooks';
+
+import { EventInterruptSource } from '../src/interrupt-sources';
+import { IOExpander } from '../src/ioExpander';
+import { MCP23017 } from '../src/mcp23017';
+import { PCF8574 } from '../src/pcf8574';
+import { SimulatedI2CBus, SimulatedMCP23017, SimulatedPCF8574 } from '../src/simulator';
+
+describe('IOExpander', () => {
+  let bus: SimulatedI2CBus;
+  let simChip: SimulatedPCF8574;
+  let chip: PCF8574;
+  let inputs: Pick<IOExpander.InputData<PCF8574.PinNumber>, 'pin' | 'value'>[];
+
+  beforeEach(() => {
+    bus = new SimulatedI2CBus();
+    simChip = bus.attach(0x20, new SimulatedPCF8574());
+    chip = new PCF8574(bus.asI2CBus(), 0x20);
+    inputs = [];
+    chip.on('input', (data) => inputs.push({ pin: data.pin, value: data.value }));
+  });
+
+  afterEach(async () => {
+    await chip.close();
+  });
+
+  describe('constructor', () => {
+    it('should reject an address out of range', () => {
+      assert.throws(() => new PCF8574(bus.asI2CBus(), 256), /Address out of range/);
+      assert.throws(() => new PCF8574(bus.asI2CBus(), -1), /Address out of range/);
+    });
+  });
+
+  describe('initialize()', () => {
+    it('should set all pins high by default', async () => {
+      simChip.transmit(Buffer.from([0x00]));
+      await chip.initialize();
+      assert.strictEqual(simChip.latch, 0xFF);
+    });
+
+    it('should accept a boolean', async () => {
+      await chip.initialize(false);
+      assert.strictEqual(simChip.latch, 0x00);
+      await chip.initialize(true);
+      assert.strictEqual(simChip.latch, 0xFF);
+    });
+
+    it('should accept a bitmask', async () => {
+      await chip.initialize(0b00101010);
+      assert.strictEqual(simChip.latch, 0b00101010);
+    });
+
+    it('should reject a bitmask out of range', async () => {
+      await assert.rejects(chip.initialize(0x100), /InitialHardwareState bitmask out of range/);
+      await assert.rejects(chip.initialize(-1), /InitialHardwareState bitmask out of range/);
+    });
+
+    it('should reset all pin definitions', async () => {
+      await chip.initialize(true);
+      await chip.outputPin(0, false, false);
+      await chip.initialize(true);
+      await assert.rejects(chip.setPin(0, true), /Pin is not defined as output/);
+    });
+  });
+
+  describe('outputPin()', () => {
+    beforeEach(() => chip.initialize(true));
+
+    it('should reject a pin out of range', async () => {
+      await assert.rejects(chip.outputPin(8 as PCF8574.PinNumber, false), /Pin out of range/);
+    });
+
+    it('should set the initial value', async () => {
+      await chip.outputPin(0, false, false);
+      await chip.outputPin(1, false, true);
+      assert.strictEqual(simChip.getPinLevel(0), false);
+      assert.strictEqual(simChip.getPinLevel(1), true);
+      assert.strictEqual(await chip.getPinValue(0), false);
+      assert.strictEqual(await chip.getPinValue(1), true);
+    });
+
+    it('should keep the last value if no initial value is given', async () => {
+      await chip.initialize(0b11111110);
+      await chip.outputPin(0, false);
+      await chip.outputPin(1, false);
+      await chip.setAllPins(0b10);
+      assert.strictEqual(simChip.getPinLevel(0), false);
+      assert.strictEqual(simChip.getPinLevel(1), true);
+    });
+
+    it('should write inverted outputs inverted', async () => {
+      await chip.outputPin(0, true, true);
+      assert.strictEqual(simChip.getPinLevel(0), false);
+      assert.strictEqual(await chip.getPinValue(0), true);
+
+      await chip.setPin(0, false);
+      assert.strictEqual(simChip.getPinLevel(0), true);
+      assert.strictEqual(await chip.getPinValue(0), false);
+    });
+
+    it('should turn an input into an output', async () => {
+      await chip.inputPin(0, false);
+      await chip.outputPin(0, false, false);
+      assert.strictEqual(simChip.getPinLevel(0), false);
+
+      // Changes of the former input must not be reported anymore.
+      simChip.setInputLevel(0, true);
+      await chip.doPoll();
+      assert.deepStrictEqual(inputs, []);
+    });
+  });
+
+  describe('inputPin()', () => {
+    beforeEach(() => chip.initialize(false));
+
+    it('should reject a pin out of range', async () => {
+      await assert.rejects(chip.inputPin(8 as PCF8574.PinNumber, false), /Pin out of range/);
+    });
+
+    it('should activate the high level on the pin', async () => {
+      assert.strictEqual(simChip.getPinLevel(7), false);
+      await chip.inputPin(7, false);
+      assert.strictEqual(simChip.getPinLevel(7), true);
+    });
+
+    it('should resolve with the current state without emitting an event', async () => {
+      simChip.setInputLevel(7, true);
+      const state = await chip.inputPin(7, false);
+      assert.strictEqual(state, 0b10000000);
+      assert.strictEqual(await chip.getPinValue(7), true);
+      assert.deepStrictEqual(inputs, []);
+    });
+
+    it('should read inverted inputs inverted', async () => {
+      simChip.setInputLevel(7, true);
+      await chip.inputPin(7, true);
+      assert.strictEqual(await chip.getPinValue(7), false);
+
+      simChip.setInputLevel(7, false);
+      await chip.doPoll();
+      assert.deepStrictEqual(inputs, [{ pin: 7, value: true }]);
+    });
+
+    it('should make the pin unusable for setPin()', async () => {
+      await chip.outputPin(7, false, false);
+      await chip.inputPin(7, false);
+      await assert.rejects(chip.setPin(7, true), /Pin is not defined as output/);
+    });
+  });
+
+  describe('setPullUp()', () => {
+    beforeEach(() => chip.initialize(true));
+
+    it('should reject if the chip has no configurable pull-ups', async () => {
+      await assert.rejects(chip.setPullUp(0, false), /Pull-up configuration is not supported by this chip/);
+    });
+
+    it('should reject the pull-up option of an input without defining the pin', async () => {
+      await chip.outputPin(0, false, false);
+      await assert.rejects(chip.inputPin(0, false, { pullUp: true }), /Pull-up configuration is not supported by this chip/);
+      await chip.setPin(0, true);
+    });
+
+    it('should reject a pin out of range', async () => {
+      await assert.rejects(chip.setPullUp(8 as PCF8574.PinNumber, false), /Pin out of range/);
+    });
+  });
+
+  describe('setInterruptMode()', () => {
+    beforeEach(() => chip.initialize(true));
+
+    it('should accept interrupt-on-change', async () => {
+      await chip.setInterruptMode(0, 'change');
+      await chip.inputPin(1, false, { interruptMode: 'change' });
+    });
+
+    it('should reject the compare modes if the chip does not support them', async () => {
+      await assert.rejects(chip.setInterruptMode(0, 'compare-to-high'), /Interrupt compare mode is not supported by this chip/);
+      await assert.rejects(chip.inputPin(1, false, { interruptMode: 'compare-to-low' }), /Interrupt compare mode is not supported by this chip/);
+    });
+
+    it('should reject a pin out of range', async () => {
+      await assert.rejects(chip.setInterruptMode(8 as PCF8574.PinNumber, 'change'), /Pin out of range/);
+    });
+  });
+
+  describe('setPin()', () => {
+    beforeEach(async () => {
+      await chip.initialize(true);
+      await chip.outputPin(0, false, false);
+    });
+
+    it('should reject a pin out of range', async () => {
+      await assert.rejects(chip.setPin(8 as PCF8574.PinNumber, true), /Pin out of range/);
+    });
+
+    it('should reject a pin which is not an output', async () => {
+      await assert.rejects(chip.setPin(1, true), /Pin is not defined as output/);
+    });
+
+    it('should set the given value', async () => {
+      await chip.setPin(0, true);
+      assert.strictEqual(simChip.getPinLevel(0), true);
+      await chip.setPin(0, true);
+      assert.strictEqual(simChip.getPinLevel(0), true);
+      await chip.setPin(0, false);
+      assert.strictEqual(simChip.getPinLevel(0), false);
+    });
+
+    it('should toggle the pin if no value is given', async () => {
+      await chip.setPin(0);
+      assert.strictEqual(simChip.getPinLevel(0), true);
+      await chip.setPin(0);
+      assert.strictEqual(simChip.getPinLevel(0), false);
+    });
+
+    it('should apply concurrent toggles in order', async () => {
+      await Promise.all([chip.setPin(0), chip.setPin(0), chip.setPin(0)]);
+      assert.strictEqual(simChip.getPinLevel(0), true);
+    });
+  });
+
+  describe('setAllPins()', () => {
+    beforeEach(async () => {
+      await chip.initialize(true);
+      await chip.outputPin(0, false, false);
+      await chip.outputPin(1, true, false);
+      await chip.outputPin(2, false, false);
+      await chip.inputPin(7, false);
+    });
+
+    it('should set all outputs to a boolean value', async () => {
+      await chip.setAllPins(true);
+      assert.strictEqual(simChip.latch, 0b11111101);
+      await chip.setAllPins(false);
+      assert.strictEqual(simChip.latch, 0b11111010);
+    });
+
+    it('should set the outputs from a bitmask', async () => {
+      await chip.setAllPins(0b00000101);
+      assert.strictEqual(await chip.getPinValue(0), true);
+      assert.strictEqual(await chip.getPinValue(1), false);
+      assert.strictEqual(await chip.getPinValue(2), true);
+      assert.strictEqual(simChip.latch, 0b11111111);
+    });
+
+    it('should never drive input pins low', async () => {
+      await chip.setAllPins(0);
+      assert.strictEqual(simChip.getPinLevel(7), true);
+    });
+
+    it('should do nothing if there are no outputs', async () => {
+      await chip.initialize(true);
+      bus.clearTransactions();
+      await chip.setAllPins(false);
+      assert.deepStrictEqual(bus.transactions, []);
+    });
+  });
+
+  describe('setPins()', () => {
+    beforeEach(async () => {
+      await chip.initialize(true);
+      await chip.outputPin(3, false, true);
+      await chip.outputPin(5, true, false);
+      await chip.outputPin(6, false, false);
+      await chip.inputPin(7, false);
+      bus.clearTransactions();
+    });
+
+    it('should set multiple outputs with a single write', async () => {
+      await chip.setPins({ 3: false, 5: true });
+      assert.deepStrictEqual(bus.transactions.map((t) => t.operation), ['i2cWrite']);
+      assert.strictEqual(await chip.getPinValue(3), false);
+      assert.strictEqual(await chip.getPinValue(5), true);
+      assert.strictEqual(await chip.getPinValue(6), false);
+      assert.strictEqual(simChip.latch, 0b10010111);
+    });
+
+    it('should reject without writing if a pin is not an output', async () => {
+      await assert.rejects(chip.setPins({ 3: false, 7: true }), /Pin is not defined as output/);
+      await assert.rejects(chip.setPins({ 3: false, 8: true } as IOExpander.PinValues<PCF8574.PinNumber>), /Pin out of range/);
+      assert.deepStrictEqual(bus.transactions, []);
+    });
+
+    it('should do nothing if no pins are given', async () => {
+      await chip.setPins({});
+      assert.deepStrictEqual(bus.transactions, []);
+    });
+  });
+
+  describe('batch()', () => {
+    beforeEach(async () => {
+      await chip.initialize(true);
+      await chip.outputPin(3, false, true);
+      await chip.outputPin(5, false, false);
+      await chip.outputPin(6, false, false);
+      bus.clearTransactions();
+    });
+
+    it('should write all changes at once', async () => {
+      const result = await chip.batch(async (tx) => {
+        tx.setPin(3, false);
+        await new Promise((resolve) => setImmediate(resolve));
+        tx.setPins({ 5: true });
+        tx.setPin(6);
+        assert.deepStrictEqual(bus.transactions, []);
+        return 42;
+      });
+      assert.strictEqual(result, 42);
+      assert.deepStrictEqual(bus.transactions.map((t) => t.operation), ['i2cWrite']);
+      assert.strictEqual(simChip.latch & 0b01101000, 0b01100000);
+    });
+
+    it('should apply the changes in order', async () => {
+      await chip.batch((tx) => {
+        tx.setAllPins(true);
+        tx.setPin(5, false);
+      });
+      assert.strictEqual(await chip.getPinValue(3), true);
+      assert.strictEqual(await chip.getPinValue(5), false);
+      assert.strictEqual(await chip.getPinValue(6), true);
+    });
+
+    it('should not write anything if the callback fails', async () => {
+      await assert.rejects(chip.batch((tx) => {
+        tx.setPin(3, false);
+        throw new Error('failed');
+      }), /failed/);
+      await assert.rejects(chip.batch((tx) => tx.setPin(7, true)), /Pin is not defined as output/);
+      assert.deepStrictEqual(bus.transactions, []);
+      assert.strictEqual(await chip.getPinValue(3), true);
+    });
+
+    it('should reject changes after the batch is finished', async () => {
+      let saved: IOExpander.Batch<PCF8574.PinNumber> | null = null;
+      await chip.batch((tx) => { saved = tx; });
+      assert.throws(() => saved?.setPin(3, false), /Batch is already finished/);
+    });
+  });
+
+  describe('write coalescing', () => {
+    let simCoalescing: SimulatedPCF8574;
+    let coalescing: PCF8574;
+
+    // Count of the writes on the bus.
+    const writes = (): number => bus.transactions.filter((t) => t.operation === 'i2cWrite').length;
+
+    beforeEach(async () => {
+      simCoalescing = bus.attach(0x21, new SimulatedPCF8574());
+      coalescing = new PCF8574(bus.asI2CBus(), 0x21, { coalesceWrites: true });
+      await coalescing.initialize(true);
+      for (let pin = 0; pin < 8; pin++) {
+        await coalescing.outputPin(pin as PCF8574.PinNumber, false, false);
+      }
+      bus.clearTransactions();
+    });
+
+    afterEach(async () => {
+      await coalescing.close();
+    });
+
+    it('should merge queued writes into one write', async () => {
+      // Block the queue with a poll, so all writes are queued.
+      const poll = coalescing.doPoll();
+      const results = [];
+      for (let pin = 0; pin < 8; pin++) {
+        results.push(coalescing.setPin(pin as PCF8574.PinNumber, pin % 2 === 0));
+      }
+      results.push(coalescing.setPin(0));
+      await poll;
+      await Promise.all(results);
+
+      assert.strictEqual(writes(), 1);
+      assert.strictEqual(simCoalescing.latch, 0b01010100);
+      assert.strictEqual(coalescing.getSavedWriteCount(), 8);
+    });
+
+    it('should not merge a write into a running write', async () => {
+      const first = coalescing.setPin(0, true);
+      const second = coalescing.setPin(1, true);
+      const third = coalescing.setPin(2, true);
+      await Promise.all([first, second, third]);
+
+      assert.strictEqual(writes(), 2);
+      assert.strictEqual(simCoalescing.latch, 0b00000111);
+      assert.strictEqual(coalescing.getSavedWriteCount(), 1);
+    });
+
+    it('should not merge writes by default', async () => {
+      await chip.initialize(true);
+      await chip.outputPin(0, false, false);
+      bus.clearTransactions();
+      await Promise.all([chip.setPin(0, true), chip.setPin(0, false)]);
+      assert.strictEqual(writes(), 2);
+      assert.strictEqual(chip.getSavedWriteCount(), 0);
+    });
+  });
+
+  describe('patterns', () => {
+    let clock: FakeTimers.InstalledClock;
+
+    // Wait until the simulated bus processed the pending writes.
+    const settle = async (): Promise<void> => {
+      for (let i = 0; i < 5; i++) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+    };
+
+    // Advance the time in steps of 1ms, so each write is done before the timer of the next step is due.
+    const tick = async (ms: number): Promise<void> => {
+      for (let i = 0; i < ms; i++) {
+        clock.tick(1);
+        await settle();
+      }
+    };
+
+    beforeEach(async () => {
+      // The simulated bus uses setImmediate, so only fake the timers used for the patterns.
+      clock = FakeTimers.install({ toFake: ['setTimeout', 'clearTimeout'] });
+      await chip.initialize(true);
+      await chip.outputPin(0, false, false);
+      await chip.outputPin(1, true, false);
+      await chip.inputPin(7, false);
+      bus.clearTransactions();
+    });
+
+    afterEach(async () => {
+      await chip.close();
+      clock.uninstall();
+    });
+
+    it('should pulse a pin', async () => {
+      let done = false;
+      const pulse = chip.pulse(0, 100).then(() => { done = true; });
+      await settle();
+      assert.strictEqual(simChip.getPinLevel(0), true);
+      await tick(99);
+      assert.strictEqual(simChip.getPinLevel(0), true);
+      await tick(1);
+      assert.strictEqual(simChip.getPinLevel(0), false);
+      await pulse;
+      assert.strictEqual(done, true);
+    });
+
+    it('should respect inverted pins', async () => {
+      const pulse = chip.pulse(1, 50);
+      await settle();
+      assert.strictEqual(simChip.getPinLevel(1), false);
+      await tick(50);
+      await pulse;
+      assert.strictEqual(simChip.getPinLevel(1), true);
+    });
+
+    it('should blink a pin the given count of periods', async () => {
+      const blink = chip.blink(0, 10, 30, 2);
+      await settle();
+      for (const [ms, level] of [[10, false], [30, true], [10, false]] as Array<[number, boolean]>) {
+        assert.strictEqual(simChip.getPinLevel(0), !level);
+        await tick(ms);
+        assert.strictEqual(simChip.getPinLevel(0), level);
+      }
+      await tick(30);
+      await blink;
+      assert.strictEqual(simChip.getPinLevel(0), false);
+      assert.strictEqual(bus.transactions.length, 4);
+    });
+
+    it('should run a sequence', async () => {
+      const sequence = chip.sequence(0, [{ value: true, ms: 20 }, { value: true, ms: 10 }, { value: false, ms: 5 }], 2);
+      await settle();
+      await tick(35 + 35);
+      await sequence;
+      assert.strictEqual(bus.transactions.length, 6);
+      assert.strictEqual(simChip.getPinLevel(0), false);
+    });
+
+    it('should stop a pattern and keep the value', async () => {
+      const blink = chip.blink(0, 10, 10);
+      await settle();
+      chip.stopPattern(0);
+      await blink;
+      await tick(100);
+      assert.strictEqual(bus.transactions.length, 1);
+      assert.strictEqual(simChip.getPinLevel(0), true);
+    });
+
+    it('should replace a pattern on the same pin', async () => {
+      const blink = chip.blink(0, 10, 10);
+      await settle();
+      const pulse = chip.pulse(0, 50, false);
+      await blink;
+      await settle();
+      await tick(10);
+      assert.strictEqual(simChip.getPinLevel(0), false);
+      await tick(40);
+      await pulse;
+      assert.strictEqual(simChip.getPinLevel(0), true);
+    });
+
+    it('should stop all patterns when closed', async () => {
+      const blink = chip.blink(0, 10, 10);
+      await settle();
+      await chip.close();
+      await blink;
+      bus.clearTransactions();
+      await tick(100);
+      assert.deepStrictEqual(bus.transactions, []);
+    });
+
+    it('should stop a pattern if the pin is redefined', async () => {
+      const blink = chip.blink(0, 10, 10);
+      await settle();
+      await chip.inputPin(0, false);
+      await blink;
+      bus.clearTransactions();
+      await tick(100);
+      assert.deepStrictEqual(bus.transactions, []);
+    });
+
+    it('should stop a pattern if the pin is set', async () => {
+      const blink = chip.blink(0, 10, 10);
+      await settle();
+      await chip.setPin(0, false);
+      await blink;
+      bus.clearTransactions();
+      await tick(100);
+      assert.deepStrictEqual(bus.transactions, []);
+      assert.strictEqual(simChip.getPinLevel(0), false);
+
+      // The same applies to all methods setting pins.
+      const pulse = chip.pulse(1, 100);
+      await settle();
+      await chip.batch((tx) => tx.setPins({ 0: true }));
+      const running = await Promise.race([pulse.then(() => false), settle().then(() => true)]);
+      assert.strictEqual(running, true);
+      await chip.setAllPins(false);
+      await pulse;
+    });
+
+    it('should reject invalid arguments', async () => {
+      await assert.rejects(chip.pulse(7, 10), /Pin is not defined as output/);
+      await assert.rejects(chip.blink(8 as PCF8574.PinNumber, 10, 10), /Pin out of range/);
+      await assert.rejects(chip.pulse(0, -1), /Invalid pattern/);
+      await assert.rejects(chip.sequence(0, []), /Invalid pattern/);
+      await assert.rejects(chip.blink(0, 10, 10, 0), /Pattern repeat count out of range/);
+      assert.deepStrictEqual(bus.transactions, []);
+    });
+  });
+
+  describe('software PWM', () => {
+    let clock: FakeTimers.InstalledClock;
+
+    // Count of the writes on the bus.
+    const writes = (): number => bus.transactions.filter((t) => t.operation === 'i2cWrite').length;
+
+    // Advance the time by one PWM step (2ms with the default options) and wait for the write.
+    const step = async (): Promise<void> => {
+      clock.tick(2);
+      for (let i = 0; i < 5; i++) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+    };
+
+    beforeEach(async () => {
+      // The simulated bus uses setImmediate, so only fake the timers used for the PWM.
+      clock = FakeTimers.install({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'] });
+      await chip.initialize(true);
+      await chip.outputPin(0, false, false);
+      await chip.outputPin(1, true, false);
+      await chip.outputPin(2, false, false);
+      bus.clearTransactions();
+    });
+
+    afterEach(async () => {
+      await chip.close();
+      clock.uninstall();
+    });
+
+    it('should drive the pins with the duty cycles in one write per step', async () => {
+      chip.setDuty(0, 0.3);
+      chip.setDuty(1, 0.5);
+
+      const levels: Array<[boolean, boolean]> = [];
+      for (let i = 0; i < 10; i++) {
+        await step();
+        levels.push([simChip.getPinLevel(0), simChip.getPinLevel(1)]);
+      }
+
+      // Pin 1 is inverted, so it is low while its value is true.
+      assert.deepStrictEqual(levels.map(([level]) => level), [true, true, true, false, false, false, false, false, false, false]);
+      assert.deepStrictEqual(levels.map(([, level]) => level), [false, false, false, false, false, true, true, true, true, true]);
+      // Only the steps which change a value are written.
+      assert.strictEqual(writes(), 3);
+      assert.strictEqual(simChip.getPinLevel(2), false);
+    });
+
+    it('should not write for a duty cycle of 0 or 1', async () => {
+      chip.setDuty(0, 0);
+      chip.setDuty(2, 1);
+      for (let i = 0; i < 20; i++) {
+        await step();
+      }
+      assert.strictEqual(writes(), 1);
+      assert.strictEqual(simChip.getPinLevel(2), true);
+    });
+
+    it('should stop the PWM and keep the value', async () => {
+      chip.setDuty(0, 0.5);
+      await step();
+      chip.stopPwm(0);
+      for (let i = 0; i < 20; i++) {
+        await step();
+      }
+      assert.strictEqual(writes(), 1);
+      assert.strictEqual(await chip.getPinValue(0), true);
+    });
+
+    it('should stop a pattern on the pin', async () => {
+      const blink = chip.blink(0, 100, 100);
+      chip.setDuty(0, 1);
+      await blink;
+    });
+
+    it('should stop the PWM if the pin is set', async () => {
+      chip.setDuty(0, 0.5);
+      chip.setDuty(2, 0.5);
+      await step();
+      await chip.setPin(0, false);
+      for (let i = 0; i < 10; i++) {
+        await step();
+        assert.strictEqual(simChip.getPinLevel(0), false);
+      }
+      // The PWM of the other pins continues.
+      assert.strictEqual(writes(), 1 + 1 + 2);
+
+      await chip.setPins({ 2: true });
+      bus.clearTransactions();
+      for (let i = 0; i < 10; i++) {
+        await step();
+      }
+      assert.strictEqual(writes(), 0);
+    });
+
+    it('should emit errors of failed writes and retry', async () => {
+      const errors: Error[] = [];
+      chip.on('error', (err) => errors.push(err));
+      chip.setDuty(0, 0.5);
+      bus.failNextTransaction();
+      await step();
+      assert.strictEqual(errors.length, 1);
+      assert.match(errors[0].message, /Remote I\/O error/);
+      assert.strictEqual(simChip.getPinLevel(0), false);
+
+      await step();
+      assert.strictEqual(simChip.getPinLevel(0), true);
+      assert.strictEqual(errors.length, 1);
+    });
+
+    it('should reject invalid arguments', async () => {
+      await chip.inputPin(7, false);
+      assert.throws(() => chip.setDuty(7, 0.5), /Pin is not defined as output/);
+      assert.throws(() => chip.setDuty(0, 1.5), /Duty cycle out of range/);
+      assert.throws(() => new PCF8574(bus.asI2CBus(), 0x20, { pwmFrequency: 0 }), /PWM frequency out of range/);
+      assert.throws(() => new PCF8574(bus.asI2CBus(), 0x20, { pwmResolution: 1 }), /PWM resolution out of range/);
+    });
+  });
+
+  describe('doPoll()', () => {
+    beforeEach(async () => {
+      await chip.initialize(true);
+      await chip.inputPin(4, false);
+      await chip.inputPin(5, false);
+    });
+
+    it('should emit an input event for each changed input pin', async () => {
+      simChip.setInputLevels(0b00000000, 0b00110000);
+      const state = await chip.doPoll();
+      assert.strictEqual(state & 0b00110000, 0);
+      assert.deepStrictEqual(inputs, [{ pin: 4, value: false }, { pin: 5, value: false }]);
+
+      simChip.setInputLevel(5, true);
+      await chip.doPoll();
+      assert.deepStrictEqual(inputs.slice(2), [{ pin: 5, value: true }]);
+    });
+
+    it('should not emit an event if nothing changed', async () => {
+      await chip.doPoll();
+      await chip.doPoll();
+      assert.deepStrictEqual(inputs, []);
+    });
+
+    it('should ignore changes on unassigned pins', async () => {
+      simChip.setInputLevel(6, false);
+      await chip.doPoll();
+      assert.deepStrictEqual(inputs, []);
+    });
+
+    it('should reject if the read fails', async () => {
+      bus.failNextTransaction();
+      await assert.rejects(chip.doPoll(), /Remote I\/O error/);
+      assert.strictEqual(chip.isPolling(), false);
+    });
+
+    it('should limit the number of queued polls to 3 + number of pins', async () => {
+      const polls: Promise<number>[] = [];
+      for (let i = 0; i < 3 + 8; i++) {
+        polls.push(chip.doPoll());
+      }
+      assert.strictEqual(chip.isPolling(), true);
+      await assert.rejects(chip.doPoll(), /Too many polls in queue/);
+
+      // Ignoring the limit is possible.
+      polls.push(chip.doPoll(true));
+
+      await Promise.all(polls);
+      assert.strictEqual(chip.isPolling(), false);
+
+      // After the queue is drained, polls are accepted again.
+      await chip.doPoll();
+    });
+  });
+
+  describe('edge and pin events', () => {
+    beforeEach(async () => {
+      await chip.initialize(true);
+      await chip.inputPin(4, false);
+      await chip.inputPin(5, true);
+    });
+
+    it('should emit rising and falling events', async () => {
+      const rising: Pick<IOExpander.InputData<PCF8574.PinNumber>, 'pin' | 'value'>[] = [];
+      const falling: Pick<IOExpander.InputData<PCF8574.PinNumber>, 'pin' | 'value'>[] = [];
+      chip.on('rising', (data) => rising.push({ pin: data.pin, value: data.value }));
+      chip.on('falling', (data) => falling.push({ pin: data.pin, value: data.value }));
+
+      // Pin 5 is inverted, so a low level is a rising edge.
+      simChip.setInputLevels(0b00000000, 0b00110000);
+      await chip.doPoll();
+      assert.deepStrictEqual(rising, [{ pin: 5, value: true }]);
+      assert.deepStrictEqual(falling, [{ pin: 4, value: false }]);
+
+      simChip.setInputLevel(4, true);
+      await chip.doPoll();
+      assert.deepStrictEqual(rising, [{ pin: 5, value: true }, { pin: 4, value: true }]);
+    });
+
+    it('should emit an event for each pin', async () => {
+      const pin4: boolean[] = [];
+      chip.on('input:4', (data) => pin4.push(data.value));
+      // @ts-expect-error The PCF8574 has no pin 8.
+      chip.on('input:8', () => undefined);
+
+      simChip.setInputLevels(0b00000000, 0b00110000);
+      await chip.doPoll();
+      simChip.setInputLevel(4, true);
+      await chip.doPoll();
+      assert.deepStrictEqual(pin4, [false, true]);
+    });
+  });
+
+  describe('timestamps and history', () => {
+    beforeEach(async () => {
+      await chip.initialize(true);
+      await chip.inputPin(4, false, { historySize: 2 });
+      await chip.inputPin(5, false);
+    });
+
+    it('should set the time of the read', async () => {
+      const events: IOExpander.InputData<PCF8574.PinNumber>[] = [];
+      chip.on('input', (data) => events.push(data));
+
+      const before = performance.now();
+      simChip.setInputLevels(0b00000000, 0b00110000);
+      await chip.doPoll();
+      const after = performance.now();
+
+      assert.strictEqual(events.length, 2);
+      assert.ok(events[0].timestamp >= before && events[0].timestamp <= after);
+      // Changes detected by the same read have the same time.
+      assert.strictEqual(events[1].timestamp, events[0].timestamp);
+      assert.strictEqual(events[0].interruptTimestamp, undefined);
+    });
+
+    it('should set the time of the interrupt', async () => {
+      const source = new EventInterruptSource();
+      await chip.enableInterrupt(source);
+      const input = once(chip, 'input');
+
+      const before = performance.now();
+      simChip.setInputLevel(4, false);
+      source.trigger();
+      const [data] = await input as [IOExpander.InputData<PCF8574.PinNumber>];
+
+      assert.ok(typeof (data.interruptTimestamp) === 'number');
+      assert.ok(data.interruptTimestamp >= before && data.interruptTimestamp <= data.timestamp);
+    });
+
+    it('should keep the last changes of a pin', async () => {
+      for (const level of [false, true, false]) {
+        simChip.setInputLevels(level ? 0b00110000 : 0, 0b00110000);
+        await chip.doPoll();
+      }
+
+      assert.deepStrictEqual(chip.getPinHistory(4).map((data) => data.value), [true, false]);
+      assert.deepStrictEqual(chip.getPinHistory(5), []);
+
+      const history = chip.getPinHistory(4);
+      assert.ok(history[0].timestamp <= history[1].timestamp);
+    });
+
+    it('should change the history size', async () => {
+      for (const level of [false, true]) {
+        simChip.setInputLevel(4, level);
+        await chip.doPoll();
+      }
+
+      await chip.inputPin(4, false, { historySize: 1 });
+      assert.deepStrictEqual(chip.getPinHistory(4).map((data) => data.value), [true]);
+
+      await chip.inputPin(4, false, { historySize: 0 });
+      assert.deepStrictEqual(chip.getPinHistory(4), []);
+    });
+
+    it('should reject invalid arguments', async () => {
+      await assert.rejects(chip.inputPin(4, false, { historySize: -1 }), /History size out of range/);
+      await assert.rejects(chip.inputPin(4, false, { historySize: 1.5 }), /History size out of range/);
+      assert.throws(() => chip.getPinHistory(8 as PCF8574.PinNumber), /Pin out of range/);
+    });
+  });
+
+  describe('change event', () => {
+    let changes: IOExpander.ChangeData[];
+
+    beforeEach(async () => {
+      await chip.initialize(true);
+      await chip.inputPin(4, false);
+      await chip.inputPin(5, true);
+      changes = [];
+      chip.on('change', (data) => changes.push(data));
+    });
+
+    it('should emit one event per poll with all changed pins', async () => {
+      const order: string[] = [];
+      chip.on('input', () => order.push('input'));
+      chip.on('change', () => order.push('change'));
+
+      simChip.setInputLevels(0b00000000, 0b00110000);
+      await chip.doPoll();
+      assert.strictEqual(changes.length, 1);
+      assert.strictEqual(changes[0].previousState, 0b00010000);
+      assert.strictEqual(changes[0].state, 0b00100000);
+      assert.strictEqual(changes[0].changed, 0b00110000);
+      assert.strictEqual(typeof (changes[0].timestamp), 'number');
+      assert.deepStrictEqual(order, ['input', 'input', 'change']);
+    });
+
+    it('should not emit an event if nothing changed', async () => {
+      await chip.doPoll();
+      assert.deepStrictEqual(changes, []);
+    });
+
+    it('should not emit an event for a pin defined as input', async () => {
+      simChip.setInputLevel(6, false);
+      await chip.inputPin(6, false);
+      assert.deepStrictEqual(changes, []);
+    });
+  });
+
+  describe('watch()', () => {
+    beforeEach(async () => {
+      await chip.initialize(true);
+      await chip.inputPin(4, false);
+      await chip.inputPin(5, false);
+    });
+
+    it('should call the callback on the watched edge', async () => {
+      const calls: Array<[boolean, PCF8574.PinNumber]> = [];
+      chip.watch(4, 'falling', (value, pin) => calls.push([value, pin]));
+      chip.watch(5, 'both', (value, pin) => calls.push([value, pin]));
+
+      simChip.setInputLevels(0b00000000, 0b00110000);
+      await chip.doPoll();
+      simChip.setInputLevels(0b00110000, 0b00110000);
+      await chip.doPoll();
+      assert.deepStrictEqual(calls, [[false, 4], [false, 5], [true, 5]]);
+    });
+
+    it('should stop calling the callback after unwatch()', async () => {
+      const calls: PCF8574.PinNumber[] = [];
+      const callback = (value: boolean, pin: PCF8574.PinNumber): void => { calls.push(pin); };
+      chip.watch(4, 'both', callback);
+      chip.watch(4, 'both', () => calls.push(4));
+      chip.watch(5, 'both', callback);
+
+      chip.unwatch(4, callback);
+      simChip.setInputLevels(0b00000000, 0b00110000);
+      await chip.doPoll();
+      assert.deepStrictEqual(calls, [4, 5]);
+
+      chip.unwatch(4);
+      simChip.setInputLevels(0b00110000, 0b00110000);
+      await chip.doPoll();
+      assert.deepStrictEqual(calls, [4, 5, 5]);
+
+      chip.unwatchAll();
+      simChip.setInputLevels(0b00000000, 0b00110000);
+      await chip.doPoll();
+      assert.deepStrictEqual(calls, [4, 5, 5]);
+      assert.strictEqual(chip.listenerCount('input:5'), 0);
+    });
+
+    it('should reject invalid arguments', () => {
+      assert.throws(() => chip.watch(8 as PCF8574.PinNumber, 'both', () => undefined), /Pin out of range/);
+      assert.throws(() => chip.watch(0, 'up' as IOExpander.WatchEdge, () => undefined), /Invalid watch edge/);
+    });
+  });
+
+  describe('startPolling()', () => {
+    let clock: FakeTimers.InstalledClock;
+
+    // Count of the polls on the bus.
+    const polls = (): number => bus.transactions.filter((t) => t.operation === 'i2cRead').length;
+
+    // Wait until the simulated bus processed the poll and the next poll is scheduled.
+    const settle = async (): Promise<void> => {
+      do {
+        await new Promise((resolve) => setImmediate(resolve));
+      } while (chip.isPolling());
+    };
+
+    const tick = async (ms: number): Promise<void> => {
+      clock.tick(ms);
+      await settle();
+    };
+
+    beforeEach(async () => {
+      // The simulated bus uses setImmediate, so only fake the timers used for polling.
+      clock = FakeTimers.install({ toFake: ['setTimeout', 'clearTimeout'] });
+      await chip.initialize(true);
+      await chip.inputPin(0, false);
+      bus.clearTransactions();
+    });
+
+    afterEach(() => {
+      clock.uninstall();
+    });
+
+    it('should poll in the given interval', async () => {
+      chip.startPolling({ interval: 50 });
+      await tick(49);
+      assert.strictEqual(polls(), 0);
+      await tick(1);
+      assert.strictEqual(polls(), 1);
+
+      simChip.setInputLevel(0, false);
+      await tick(50);
+      assert.strictEqual(polls(), 2);
+      assert.deepStrictEqual(inputs, [{ pin: 0, value: false }]);
+    });
+
+    it('should use an interval of 100ms by default', async () => {
+      chip.startPolling();
+      await tick(100);
+      await tick(100);
+      assert.strictEqual(polls(), 2);
+    });
+
+    it('should skip a poll while another poll is active', async () => {
+      chip.startPolling({ interval: 50 });
+      const poll = chip.doPoll();
+      await tick(50);
+      await poll;
+      assert.strictEqual(polls(), 1);
+
+      // The skipped poll is done after the next interval.
+      await tick(50);
+      assert.strictEqual(polls(), 2);
+    });
+
+    it('should speed up after a change and back off while idle', async () => {
+      chip.startPolling({ interval: 100, activeInterval: 10, idleInterval: 400 });
+      await tick(100);
+      assert.strictEqual(polls(), 1);
+
+      // No change, so the interval is doubled.
+      await tick(199);
+      assert.strictEqual(polls(), 1);
+      await tick(1);
+      assert.strictEqual(polls(), 2);
+
+      // The interval is limited by the idle interval.
+      await tick(400);
+      assert.strictEqual(polls(), 3);
+      simChip.setInputLevel(0, false);
+      await tick(400);
+      assert.strictEqual(polls(), 4);
+
+      // After the change the active interval is used.
+      await tick(10);
+      assert.strictEqual(polls(), 5);
+      await tick(20);
+      assert.strictEqual(polls(), 6);
+    });
+
+    it('should continue polling after a failed poll', async () => {
+      const errors: Error[] = [];
+      chip.on('error', (err) => errors.push(err));
+      chip.startPolling({ interval: 50 });
+      bus.failNextTransaction();
+      await tick(50);
+      assert.strictEqual(errors.length, 1);
+      assert.match(errors[0].message, /Remote I\/O error/);
+
+      simChip.setInputLevel(0, false);
+      await tick(50);
+      assert.deepStrictEqual(inputs, [{ pin: 0, value: false }]);
+      assert.strictEqual(errors.length, 1);
+    });
+
+    it('should stop polling', async () => {
+      chip.startPolling({ interval: 50 });
+      await tick(50);
+      chip.stopPolling();
+      await tick(500);
+      assert.strictEqual(polls(), 1);
+    });
+
+    it('should stop polling on close', async () => {
+      chip.startPolling({ interval: 50 });
+      await chip.close();
+      await tick(500);
+      assert.strictEqual(polls(), 0);
+    });
+
+    it('should restart polling with new options', async () => {
+      chip.startPolling({ interval: 50 });
+      chip.startPolling({ interval: 200 });
+      await tick(199);
+      assert.strictEqual(polls(), 0);
+      await tick(1);
+      assert.strictEqual(polls(), 1);
+    });
+
+    it('should reject invalid options', () => {
+      assert.throws(() => chip.startPolling({ interval: 0 }), /Polling interval out of range/);
+      assert.throws(() => chip.startPolling({ idleInterval: -1 }), /Polling interval out of range/);
+      assert.throws(() => chip.startPolling({ backoffFactor: 0.5 }), /Polling backoff factor out of range/);
+    });
+  });
+
+  describe('debounce', () => {
+    let clock: FakeTimers.InstalledClock;
+
+    // Wait until the simulated bus processed all pending polls.
+    const settle = async (): Promise<void> => {
+      do {
+        await new Promise((resolve) => setImmediate(resolve));
+      } while (chip.isPolling());
+    };
+
+    const tick = async (ms: number): Promise<void> => {
+      clock.tick(ms);
+      await settle();
+    };
+
+    beforeEach(async () => {
+      // The simulated bus uses setImmediate, so only fake the timers used for debouncing.
+      clock = FakeTimers.install({ toFake: ['setTimeout', 'clearTimeout'] });
+      await chip.initialize(true);
+    });
+
+    afterEach(async () => {
+      await chip.close();
+      clock.uninstall();
+    });
+
+    it('should reject an invalid debounce time', async () => {
+      await assert.rejects(chip.inputPin(0, false, { debounceMs: -1 }), /Debounce time out of range/);
+      await assert.rejects(chip.inputPin(0, false, { debounceMs: NaN }), /Debounce time out of range/);
+    });
+
+    it('should emit a change after the pin was stable for the debounce time', async () => {
+      await chip.inputPin(0, false, { debounceMs: 20 });
+      simChip.setInputLevel(0, false);
+      await chip.doPoll();
+      assert.deepStrictEqual(inputs, []);
+      assert.strictEqual(await chip.getPinValue(0), true);
+
+      await tick(19);
+      assert.deepStrictEqual(inputs, []);
+      await tick(1);
+      assert.deepStrictEqual(inputs, [{ pin: 0, value: false }]);
+      assert.strictEqual(await chip.getPinValue(0), false);
+    });
+
+    it('should emit the error and retry if the poll after the debounce time fails', async () => {
+      const errors: Error[] = [];
+      chip.on('error', (err) => errors.push(err));
+      await chip.inputPin(0, false, { debounceMs: 20 });
+      simChip.setInputLevel(0, false);
+      await chip.doPoll();
+
+      bus.failNextTransaction();
+      await tick(20);
+      assert.strictEqual(errors.length, 1);
+      assert.match(errors[0].message, /Remote I\/O error/);
+      assert.deepStrictEqual(inputs, []);
+
+      await tick(20);
+      assert.deepStrictEqual(inputs, [{ pin: 0, value: false }]);
+      assert.strictEqual(errors.length, 1);
+    });
+
+    it('should ignore a bounce shorter than the debounce time', async () => {
+      await chip.inputPin(0, false, { debounceMs: 20 });
+      simChip.setInputLevel(0, false);
+      await chip.doPoll();
+      await tick(10);
+      simChip.setInputLevel(0, true);
+      await chip.doPoll();
+      await tick(20);
+      assert.deepStrictEqual(inputs, []);
+      assert.strictEqual(await chip.getPinValue(0), true);
+    });
+
+    it('should not emit a change if the pin bounced back when the debounce time expired', async () => {
+      await chip.inputPin(0, false, { debounceMs: 20 });
+      simChip.setInputLevel(0, false);
+      await chip.doPoll();
+      simChip.setInputLevel(0, true);
+      await tick(20);
+      assert.deepStrictEqual(inputs, []);
+
+      // A new change starts a new debounce time.
+      simChip.setInputLevel(0, false);
+      await chip.doPoll();
+      await tick(19);
+      assert.deepStrictEqual(inputs, []);
+      await tick(1);
+      assert.deepStrictEqual(inputs, [{ pin: 0, value: false }]);
+    });
+
+    it('should only debounce the configured pins', async () => {
+      await chip.inputPin(0, false, { debounceMs: 20 });
+      await chip.inputPin(1, false);
+      simChip.setInputLevel(0, false);
+      simChip.setInputLevel(1, false);
+      await chip.doPoll();
+      assert.deepStrictEqual(inputs, [{ pin: 1, value: false }]);
+      await tick(20);
+      assert.deepStrictEqual(inputs, [{ pin: 1, value: false }, { pin: 0, value: false }]);
+    });
+
+    it('should disable debouncing with a debounce time of 0', async () => {
+      await chip.inputPin(0, false, { debounceMs: 20 });
+      await chip.inputPin(0, false, { debounceMs: 0 });
+      simChip.setInputLevel(0, false);
+      await chip.doPoll();
+      assert.deepStrictEqual(inputs, [{ pin: 0, value: false }]);
+    });
+
+    it('should keep the debounce time if not given', async () => {
+      await chip.inputPin(0, false, { debounceMs: 20 });
+      await chip.inputPin(0, true);
+      simChip.setInputLevel(0, false);
+      await chip.doPoll();
+      assert.deepStrictEqual(inputs, []);
+      await tick(20);
+      assert.deepStrictEqual(inputs, [{ pin: 0, value: true }]);
+    });
+
+    it('should cancel a pending change if the pin is defined as output', async () => {
+      await chip.inputPin(0, false, { debounceMs: 20 });
+      simChip.setInputLevel(0, false);
+      await chip.doPoll();
+      await chip.outputPin(0, false, true);
+      bus.clearTransactions();
+      await tick(20);
+      assert.deepStrictEqual(bus.transactions, []);
+      assert.deepStrictEqual(inputs, []);
+    });
+  });
+
+  describe('with registers (MCP23017)', () => {
+    let simMcp: SimulatedMCP23017;
+    let mcp: MCP23017;
+
+    beforeEach(async () => {
+      simMcp = bus.attach(0x21, new SimulatedMCP23017());
+      mcp = new MCP23017(bus.asI2CBus(), 0x21);
+      await mcp.initialize(false);
+    });
+
+    afterEach(() => mcp.close());
+
+    it('should track the pin directions in IODIR', async () => {
+      assert.strictEqual(simMcp.peekRegister(0x00), 0xFF);
+      await mcp.outputPin(0, false, true);
+      await mcp.outputPin(9, false, true);
+      assert.strictEqual(simMcp.peekRegister(0x00), 0xFE);
+      assert.strictEqual(simMcp.peekRegister(0x01), 0xFD);
+
+      await mcp.inputPin(0, false);
+      assert.strictEqual(simMcp.peekRegister(0x00), 0xFF);
+    });
+
+    it('should handle inversion in software', async () => {
+      await mcp.inputPin(15, true);
+      assert.strictEqual(simMcp.peekRegister(0x03), 0x00);
+      assert.strictEqual(await mcp.getPinValue(15), false);
+
+      const mcpInputs: Pick<MCP23017.InputData, 'pin' | 'value'>[] = [];
+      mcp.on('input', (data) => mcpInputs.push({ pin: data.pin, value: data.value }));
+      simMcp.setInputLevel(15, false);
+      await mcp.doPoll();
+      assert.deepStrictEqual(mcpInputs, [{ pin: 15, value: true }]);
+    });
+  });
+});
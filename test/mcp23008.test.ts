@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import { once } from 'events';
+
+import { EventInterruptSource } from '../src/interrupt-sources';
+import { MCP23008 } from '../src/mcp23008';
+import { SimulatedI2CBus, SimulatedMCP23008 } from '../src/simulator';
+
+// Register addresses.
+const DEFVAL = 0x03;
+const INTCON = 0x04;
+const IOCON = 0x05;
+const GPPU = 0x06;
+const INTF = 0x07;
+
+describe('MCP23008', () => {
+  let bus: SimulatedI2CBus;
+  let simChip: SimulatedMCP23008;
+
+  beforeEach(() => {
+    bus = new SimulatedI2CBus();
+    simChip = bus.attach(0x20, new SimulatedMCP23008());
+  });
+
+  describe('interrupt output options', () => {
+    it('should default to open-drain active low interrupts', async () => {
+      const chip = new MCP23008(bus.asI2CBus(), 0x20);
+      await chip.initialize();
+      assert.strictEqual(simChip.peekRegister(IOCON), 0x04);
+      assert.strictEqual(chip.getInterruptEdge(), 'falling');
+    });
+
+    it('should configure an active high push-pull interrupt', async () => {
+      const chip = new MCP23008(bus.asI2CBus(), 0x20, { interruptActiveHigh: true, sdaSlewRateDisabled: true });
+      await chip.initialize();
+      assert.strictEqual(simChip.peekRegister(IOCON), 0x12);
+      assert.strictEqual(chip.getInterruptEdge(), 'rising');
+    });
+
+    it('should reject an active high open-drain interrupt', () => {
+      assert.throws(() => new MCP23008(bus.asI2CBus(), 0x20, { interruptActiveHigh: true, interruptOpenDrain: true }), /requires a push-pull interrupt output/);
+    });
+
+    it('should work with disabled sequential operation', async () => {
+      const chip = new MCP23008(bus.asI2CBus(), 0x20, { sequentialOperationDisabled: true });
+      await chip.initialize();
+      assert.strictEqual(simChip.peekRegister(IOCON), 0x24);
+      await chip.outputPin(3, false, true);
+      assert.strictEqual(simChip.getPinLevel(3), true);
+    });
+  });
+
+  describe('pull-up resistors', () => {
+    it('should configure the pull-up of a pin', async () => {
+      const chip = new MCP23008(bus.asI2CBus(), 0x20);
+      await chip.initialize();
+      assert.strictEqual(simChip.peekRegister(GPPU), 0xFF);
+
+      await chip.inputPin(7, false, { pullUp: false });
+      assert.strictEqual(simChip.peekRegister(GPPU), 0x7F);
+      assert.strictEqual(await chip.getPinValue(7), false);
+
+      await chip.setPullUp(7, true);
+      assert.strictEqual(simChip.peekRegister(GPPU), 0xFF);
+    });
+  });
+
+  describe('interrupt modes', () => {
+    it('should write DEFVAL and INTCON for the compare modes', async () => {
+      const chip = new MCP23008(bus.asI2CBus(), 0x20);
+      await chip.initialize();
+      assert.strictEqual(simChip.peekRegister(INTCON), 0x00);
+
+      await chip.inputPin(2, false, { interruptMode: 'compare-to-high' });
+      await chip.inputPin(4, true, { interruptMode: 'compare-to-high' });
+      assert.strictEqual(simChip.peekRegister(INTCON), 0x14);
+      assert.strictEqual(simChip.peekRegister(DEFVAL), 0x04);
+
+      await chip.setInterruptMode(2, 'change');
+      assert.strictEqual(simChip.peekRegister(INTCON), 0x10);
+      assert.strictEqual(simChip.peekRegister(DEFVAL), 0x00);
+    });
+  });
+
+  describe('interrupt capture', () => {
+    it('should emit the captured and the current value of a short pulse', async () => {
+      const chip = new MCP23008(bus.asI2CBus(), 0x20);
+      await chip.initialize();
+      const inputs: Pick<MCP23008.InputData, 'pin' | 'value'>[] = [];
+      chip.on('input', (data) => inputs.push({ pin: data.pin, value: data.value }));
+      await chip.inputPin(6, false);
+      const source = new EventInterruptSource();
+      await chip.enableInterrupt(source);
+
+      simChip.setInputLevel(6, false);
+      simChip.setInputLevel(6, true);
+      bus.clearTransactions();
+      source.trigger();
+      await once(chip, 'interrupt');
+      assert.deepStrictEqual(inputs, [{ pin: 6, value: false }, { pin: 6, value: true }]);
+      assert.deepStrictEqual(bus.transactions.map((t) => [t.register, t.data.length]), [[INTF, 3]]);
+      await chip.close();
+    });
+  });
+});
@@ -0,0 +1,489 @@
+import * as assert from 'assert';
+import { EventEmitter, once } from 'events';
+
+import { EventInterruptSource } from '../src/interrupt-sources';
+import { IOExpander } from '../src/ioExpander';
+import { MCP23017, MCP23017A, MCP23017B } from '../src/mcp23017';
+import { SimulatedI2CBus, SimulatedMCP23017 } from '../src/simulator';
+
+// Register addresses in BANK=0.
+const DEFVALA = 0x06;
+const DEFVALB = 0x07;
+const INTCONA = 0x08;
+const INTCONB = 0x09;
+const IOCON = 0x0A;
+const GPPUA = 0x0C;
+const GPPUB = 0x0D;
+const INTFA = 0x0E;
+const INTFB = 0x0F;
+// Registers in BANK=1.
+const IOCON_BANK1 = 0x05;
+const INTFB_BANK1 = 0x17;
+
+describe('MCP23017', () => {
+  let bus: SimulatedI2CBus;
+  let simChip: SimulatedMCP23017;
+
+  beforeEach(() => {
+    bus = new SimulatedI2CBus();
+    simChip = bus.attach(0x20, new SimulatedMCP23017());
+  });
+
+  describe('interrupt output options', () => {
+    it('should default to mirrored open-drain active low interrupts', async () => {
+      const chip = new MCP23017(bus.asI2CBus(), 0x20);
+      await chip.initialize();
+      assert.strictEqual(simChip.peekRegister(IOCON), 0x44);
+      assert.strictEqual(chip.getInterruptEdge(), 'falling');
+    });
+
+    it('should configure an active high push-pull interrupt', async () => {
+      const chip = new MCP23017(bus.asI2CBus(), 0x20, { interruptActiveHigh: true });
+      await chip.initialize();
+      assert.strictEqual(simChip.peekRegister(IOCON), 0x42);
+      assert.strictEqual(chip.getInterruptEdge(), 'rising');
+
+      await chip.inputPin(0, false);
+      await chip.enableInterrupt(new EventInterruptSource(simChip));
+      assert.strictEqual(simChip.getInterruptLevel(0), false);
+
+      const interrupt = once(chip, 'interrupt');
+      simChip.setInputLevel(0, false);
+      assert.strictEqual(simChip.getInterruptLevel(0), true);
+      await interrupt;
+      assert.strictEqual(simChip.getInterruptLevel(0), false);
+      await chip.close();
+    });
+
+    it('should configure an active low push-pull interrupt', async () => {
+      const chip = new MCP23017(bus.asI2CBus(), 0x20, { interruptOpenDrain: false });
+      await chip.initialize();
+      assert.strictEqual(simChip.peekRegister(IOCON), 0x40);
+      assert.strictEqual(chip.getInterruptEdge(), 'falling');
+    });
+
+    it('should reject an active high open-drain interrupt', () => {
+      assert.throws(() => new MCP23017(bus.asI2CBus(), 0x20, { interruptActiveHigh: true, interruptOpenDrain: true }), /requires a push-pull interrupt output/);
+    });
+
+    it('should configure mirroring, slew rate and sequential operation', async () => {
+      const chip = new MCP23017(bus.asI2CBus(), 0x20, { interruptMirror: false, sdaSlewRateDisabled: true, sequentialOperationDisabled: true });
+      await chip.initialize();
+      // Separate interrupt lines use BANK=1.
+      assert.strictEqual(simChip.peekRegister(IOCON_BANK1), 0xB4);
+
+      // Each port is accessed separately as the address pointer does not increment.
+      await chip.outputPin(0, false, true);
+      await chip.outputPin(15, false, true);
+      assert.strictEqual(simChip.getPinLevel(0), true);
+      assert.strictEqual(simChip.getPinLevel(15), true);
+      await chip.setAllPins(false);
+      assert.strictEqual(simChip.getPinLevel(0), false);
+      assert.strictEqual(simChip.getPinLevel(15), false);
+    });
+
+    it('should never mirror interrupts of the port instances', async () => {
+      const chipA = new MCP23017A(bus.asI2CBus(), 0x20, { interruptMirror: true } as MCP23017A.Options);
+      await chipA.initialize();
+      assert.strictEqual(simChip.peekRegister(IOCON), 0x04);
+
+      // IOCON is shared, so port B can only use another configuration once port A is closed.
+      await chipA.close();
+      const chipB = new MCP23017B(bus.asI2CBus(), 0x20, { interruptActiveHigh: true });
+      await chipB.initialize();
+      assert.strictEqual(simChip.peekRegister(IOCON), 0x02);
+      assert.strictEqual(chipB.getInterruptEdge(), 'rising');
+    });
+  });
+
+  describe('pull-up resistors', () => {
+    let chip: MCP23017;
+
+    beforeEach(async () => {
+      chip = new MCP23017(bus.asI2CBus(), 0x20);
+      await chip.initialize();
+    });
+
+    it('should enable all pull-ups by default', () => {
+      assert.strictEqual(simChip.peekRegister(GPPUA), 0xFF);
+      assert.strictEqual(simChip.peekRegister(GPPUB), 0xFF);
+    });
+
+    it('should disable and enable the pull-up of a pin', async () => {
+      await chip.setPullUp(9, false);
+      assert.strictEqual(simChip.peekRegister(GPPUA), 0xFF);
+      assert.strictEqual(simChip.peekRegister(GPPUB), 0xFD);
+
+      await chip.setPullUp(9, true);
+      assert.strictEqual(simChip.peekRegister(GPPUB), 0xFF);
+    });
+
+    it('should not lose concurrent pull-up changes', async () => {
+      await Promise.all([chip.setPullUp(0, false), chip.setPullUp(1, false)]);
+      assert.strictEqual(simChip.peekRegister(GPPUA), 0xFC);
+    });
+
+    it('should configure the pull-up when defining an input', async () => {
+      const state = await chip.inputPin(3, false, { pullUp: false });
+      assert.strictEqual(simChip.peekRegister(GPPUA), 0xF7);
+      // An undriven input without pull-up reads low.
+      assert.strictEqual((state >> 3) & 1, 0);
+
+      await chip.inputPin(3, false, { pullUp: true });
+      assert.strictEqual(simChip.peekRegister(GPPUA), 0xFF);
+      assert.strictEqual(await chip.getPinValue(3), true);
+    });
+
+    it('should keep the pull-up configuration if no option is given', async () => {
+      await chip.setPullUp(3, false);
+      await chip.inputPin(3, false);
+      assert.strictEqual(simChip.peekRegister(GPPUA), 0xF7);
+    });
+
+    it('should reset the pull-ups on initialize', async () => {
+      await chip.setPullUp(3, false);
+      await chip.initialize();
+      assert.strictEqual(simChip.peekRegister(GPPUA), 0xFF);
+    });
+
+    it('should configure the pull-ups of the port instances', async () => {
+      // The 16 pin instance uses another IOCON configuration.
+      await chip.close();
+      const chipB = new MCP23017B(bus.asI2CBus(), 0x20);
+      await chipB.initialize();
+      await chipB.inputPin(1, false, { pullUp: false });
+      assert.strictEqual(simChip.peekRegister(GPPUA), 0xFF);
+      assert.strictEqual(simChip.peekRegister(GPPUB), 0xFD);
+    });
+  });
+
+  describe('interrupt modes', () => {
+    let chip: MCP23017;
+    let inputs: Pick<MCP23017.InputData, 'pin' | 'value'>[];
+
+    beforeEach(async () => {
+      chip = new MCP23017(bus.asI2CBus(), 0x20);
+      await chip.initialize();
+      inputs = [];
+      chip.on('input', (data) => inputs.push({ pin: data.pin, value: data.value }));
+    });
+
+    afterEach(() => chip.close());
+
+    it('should use interrupt-on-change by default', () => {
+      assert.strictEqual(simChip.peekRegister(INTCONA), 0x00);
+      assert.strictEqual(simChip.peekRegister(INTCONB), 0x00);
+      assert.strictEqual(simChip.peekRegister(DEFVALA), 0x00);
+      assert.strictEqual(simChip.peekRegister(DEFVALB), 0x00);
+    });
+
+    it('should write DEFVAL and INTCON for the compare modes', async () => {
+      await chip.inputPin(1, false, { interruptMode: 'compare-to-high' });
+      await chip.inputPin(9, false, { interruptMode: 'compare-to-low' });
+      assert.strictEqual(simChip.peekRegister(INTCONA), 0x02);
+      assert.strictEqual(simChip.peekRegister(INTCONB), 0x02);
+      assert.strictEqual(simChip.peekRegister(DEFVALA), 0x02);
+      assert.strictEqual(simChip.peekRegister(DEFVALB), 0x00);
+
+      await chip.setInterruptMode(1, 'change');
+      assert.strictEqual(simChip.peekRegister(INTCONA), 0x00);
+      assert.strictEqual(simChip.peekRegister(DEFVALA), 0x00);
+    });
+
+    it('should not lose concurrent interrupt mode changes', async () => {
+      await Promise.all([chip.setInterruptMode(1, 'compare-to-high'), chip.setInterruptMode(2, 'compare-to-low')]);
+      assert.strictEqual(simChip.peekRegister(INTCONA), 0x06);
+      assert.strictEqual(simChip.peekRegister(DEFVALA), 0x02);
+    });
+
+    it('should compare inverted pins with the inverted level', async () => {
+      await chip.inputPin(1, true, { interruptMode: 'compare-to-high' });
+      assert.strictEqual(simChip.peekRegister(DEFVALA), 0x00);
+
+      // Changing the inverted flag later updates the compared level.
+      await chip.inputPin(1, false);
+      assert.strictEqual(simChip.peekRegister(INTCONA), 0x02);
+      assert.strictEqual(simChip.peekRegister(DEFVALA), 0x02);
+    });
+
+    it('should only interrupt when the pin deviates from the reference', async () => {
+      // A door contact which is closed (high) in normal state.
+      simChip.setInputLevel(5, true);
+      await chip.inputPin(5, false, { interruptMode: 'compare-to-high' });
+      await chip.enableInterrupt(new EventInterruptSource(simChip));
+
+      const interrupt = once(chip, 'interrupt');
+      simChip.setInputLevel(5, false);
+      await interrupt;
+      assert.deepStrictEqual(inputs, [{ pin: 5, value: false }]);
+
+      // Returning to the reference level causes no new interrupt, so the change is seen by the next poll.
+      let activations = 0;
+      simChip.on('interrupt', () => activations++);
+      simChip.setInputLevel(5, true);
+      await chip.doPoll();
+      assert.strictEqual(activations, 0);
+      assert.strictEqual(simChip.isInterruptActive(0), false);
+      assert.deepStrictEqual(inputs, [{ pin: 5, value: false }, { pin: 5, value: true }]);
+    });
+
+    it('should reject an invalid mode', async () => {
+      await assert.rejects(chip.setInterruptMode(1, 'rising' as IOExpander.InterruptMode), /Invalid interrupt mode/);
+    });
+  });
+
+  describe('interrupt capture', () => {
+    let source: EventInterruptSource;
+    let inputs: Pick<IOExpander.InputData<IOExpander.PinNumber16>, 'pin' | 'value'>[];
+
+    // Simulate a pulse which is over before the interrupt is processed.
+    const pulse = async (chip: IOExpander<IOExpander.PinNumber8 | IOExpander.PinNumber16>, pin: number): Promise<void> => {
+      simChip.setInputLevel(pin, false);
+      simChip.setInputLevel(pin, true);
+      bus.clearTransactions();
+      const interrupt = once(chip, 'interrupt');
+      source.trigger();
+      await interrupt;
+    };
+
+    beforeEach(() => {
+      // The interrupt is triggered manually to control the timing.
+      source = new EventInterruptSource();
+      inputs = [];
+      simChip.setInputLevels(0xFFFF);
+    });
+
+    it('should emit the captured and the current value of a short pulse', async () => {
+      const chip = new MCP23017(bus.asI2CBus(), 0x20);
+      await chip.initialize();
+      chip.on('input', (data) => inputs.push({ pin: data.pin, value: data.value }));
+      await chip.inputPin(3, false);
+      await chip.inputPin(12, false);
+      await chip.enableInterrupt(source);
+
+      await pulse(chip, 12);
+      assert.deepStrictEqual(inputs, [{ pin: 12, value: false }, { pin: 12, value: true }]);
+
+      // INTF, INTCAP and GPIO are read in one burst.
+      assert.deepStrictEqual(bus.transactions.map((t) => [t.operation, t.register, t.data.length]), [['readI2cBlock', INTFA, 6]]);
+      assert.strictEqual(simChip.isInterruptActive(0), false);
+      await chip.close();
+    });
+
+    it('should only emit the current value if it did not return to the previous value', async () => {
+      const chip = new MCP23017(bus.asI2CBus(), 0x20);
+      await chip.initialize();
+      chip.on('input', (data) => inputs.push({ pin: data.pin, value: data.value }));
+      await chip.inputPin(3, false);
+      await chip.enableInterrupt(source);
+
+      simChip.setInputLevel(3, false);
+      source.trigger();
+      await once(chip, 'interrupt');
+      assert.deepStrictEqual(inputs, [{ pin: 3, value: false }]);
+      await chip.close();
+    });
+
+    it('should respect inverted pins', async () => {
+      const chip = new MCP23017(bus.asI2CBus(), 0x20);
+      await chip.initialize();
+      chip.on('input', (data) => inputs.push({ pin: data.pin, value: data.value }));
+      await chip.inputPin(3, true);
+      await chip.enableInterrupt(source);
+
+      await pulse(chip, 3);
+      assert.deepStrictEqual(inputs, [{ pin: 3, value: true }, { pin: 3, value: false }]);
+      await chip.close();
+    });
+
+    it('should read the registers one by one without sequential operation', async () => {
+      const chip = new MCP23017(bus.asI2CBus(), 0x20, { sequentialOperationDisabled: true });
+      await chip.initialize();
+      chip.on('input', (data) => inputs.push({ pin: data.pin, value: data.value }));
+      await chip.inputPin(3, false);
+      await chip.enableInterrupt(source);
+
+      await pulse(chip, 3);
+      assert.deepStrictEqual(inputs, [{ pin: 3, value: false }, { pin: 3, value: true }]);
+      assert.strictEqual(bus.transactions.length, 3);
+      await chip.close();
+    });
+
+    it('should capture pulses on port B with MCP23017B', async () => {
+      const chip = new MCP23017B(bus.asI2CBus(), 0x20);
+      await chip.initialize();
+      chip.on('input', (data) => inputs.push({ pin: data.pin, value: data.value }));
+      await chip.inputPin(4, false);
+      await chip.enableInterrupt(source);
+
+      await pulse(chip, 12);
+      assert.deepStrictEqual(inputs, [{ pin: 4, value: false }, { pin: 4, value: true }]);
+      assert.strictEqual(bus.transactions[0].register, INTFB);
+      await chip.close();
+    });
+
+    it('should not read the capture on a manual poll', async () => {
+      const chip = new MCP23017(bus.asI2CBus(), 0x20);
+      await chip.initialize();
+      chip.on('input', (data) => inputs.push({ pin: data.pin, value: data.value }));
+      await chip.inputPin(3, false);
+      await chip.enableInterrupt(source);
+
+      simChip.setInputLevel(3, false);
+      simChip.setInputLevel(3, true);
+      await chip.doPoll();
+      assert.deepStrictEqual(inputs, []);
+      await chip.close();
+    });
+  });
+
+  describe('separate interrupt lines', () => {
+    let chip: MCP23017;
+    let sourceA: EventInterruptSource;
+    let sourceB: EventInterruptSource;
+    let inputs: Pick<MCP23017.InputData, 'pin' | 'value'>[];
+
+    beforeEach(async () => {
+      // The interrupts are triggered manually to control the timing.
+      sourceA = new EventInterruptSource();
+      sourceB = new EventInterruptSource();
+      simChip.setInputLevels(0xFFFF);
+      chip = new MCP23017(bus.asI2CBus(), 0x20, { interruptMirror: false });
+      await chip.initialize();
+      inputs = [];
+      chip.on('input', (data) => inputs.push({ pin: data.pin, value: data.value }));
+      await chip.inputPin(3, false);
+      await chip.inputPin(12, false);
+    });
+
+    afterEach(() => chip.close());
+
+    it('should only read the port of the interrupt line', async () => {
+      await chip.enableInterrupt(sourceA, sourceB);
+      simChip.setInputLevel(3, false);
+      simChip.setInputLevel(12, false);
+      assert.strictEqual(simChip.isInterruptActive(0), true);
+      assert.strictEqual(simChip.isInterruptActive(1), true);
+
+      bus.clearTransactions();
+      sourceB.trigger();
+      await once(chip, 'interrupt');
+      assert.deepStrictEqual(inputs, [{ pin: 12, value: false }]);
+      // INTFB, INTCAPB and GPIOB are read in a single burst.
+      assert.deepStrictEqual(bus.transactions.map((t) => t.register), [INTFB_BANK1]);
+      assert.strictEqual(bus.transactions[0].data.length, 3);
+      assert.strictEqual(simChip.isInterruptActive(0), true);
+      assert.strictEqual(simChip.isInterruptActive(1), false);
+
+      sourceA.trigger();
+      await once(chip, 'interrupt');
+      assert.deepStrictEqual(inputs, [{ pin: 12, value: false }, { pin: 3, value: false }]);
+      assert.strictEqual(simChip.isInterruptActive(0), false);
+    });
+
+    it('should work with the interrupt lines of the simulated chip', async () => {
+      const emitter = new EventEmitter();
+      simChip.on('interrupt', (line: number) => emitter.emit(line === 0 ? 'inta' : 'intb'));
+      await chip.enableInterrupt(new EventInterruptSource(emitter, 'inta'), new EventInterruptSource(emitter, 'intb'));
+
+      const interrupt = once(chip, 'interrupt');
+      simChip.setInputLevel(12, false);
+      await interrupt;
+      assert.deepStrictEqual(inputs, [{ pin: 12, value: false }]);
+    });
+
+    it('should stop watching both lines when disabled', async () => {
+      await chip.enableInterrupt(sourceA, sourceB);
+      await chip.disableInterrupt();
+
+      let interrupts = 0;
+      chip.on('interrupt', () => interrupts++);
+      sourceA.trigger();
+      sourceB.trigger();
+      await chip.doPoll();
+      assert.strictEqual(interrupts, 0);
+    });
+
+    it('should reject if the interrupt lines are mirrored', async () => {
+      const mirrored = new MCP23017(bus.asI2CBus(), 0x20);
+      await assert.rejects(mirrored.enableInterrupt(sourceA, sourceB), /Separate interrupt lines require the interruptMirror option to be false/);
+    });
+
+    it('should reject an invalid source without using the other', async () => {
+      await assert.rejects(chip.enableInterrupt(sourceA, {} as IOExpander.InterruptSource), /Invalid interrupt source/);
+      await chip.enableInterrupt(sourceA, sourceB);
+    });
+  });
+
+  describe('shared device', () => {
+    it('should not interleave the initialization of the port instances', async () => {
+      const chipA = new MCP23017A(bus.asI2CBus(), 0x20);
+      const chipB = new MCP23017B(bus.asI2CBus(), 0x20);
+      bus.clearTransactions();
+      await Promise.all([chipA.initialize(), chipB.initialize()]);
+
+      // Port A registers have even, port B registers odd addresses.
+      // The first transaction resets IOCON at its BANK=1 address.
+      assert.strictEqual(bus.transactions[0].register, IOCON_BANK1);
+      const ports = bus.transactions.slice(1).map((t) => t.register & 0x01);
+      const firstB = ports.indexOf(1);
+      assert.ok(firstB > 0);
+      assert.ok(ports.slice(0, firstB).every((port) => port === 0));
+      assert.ok(ports.slice(firstB).every((port) => port === 1));
+      assert.strictEqual(simChip.peekRegister(IOCON), 0x04);
+    });
+
+    it('should write the shared IOCON register only once', async () => {
+      const chipA = new MCP23017A(bus.asI2CBus(), 0x20);
+      const chipB = new MCP23017B(bus.asI2CBus(), 0x20);
+      bus.clearTransactions();
+      await chipA.initialize();
+      await chipB.initialize();
+      assert.strictEqual(bus.transactions.filter((t) => t.register === IOCON || t.register === IOCON + 1).length, 1);
+
+      // A repeated initialization writes IOCON again if no other instance uses it.
+      await chipA.close();
+      bus.clearTransactions();
+      await chipB.initialize();
+      assert.strictEqual(bus.transactions.filter((t) => t.register === IOCON || t.register === IOCON + 1).length, 1);
+    });
+
+    it('should reject a different configuration of the shared IOCON register', async () => {
+      const chipA = new MCP23017A(bus.asI2CBus(), 0x20);
+      const chipB = new MCP23017B(bus.asI2CBus(), 0x20, { interruptOpenDrain: false });
+      await chipA.initialize();
+      await assert.rejects(chipB.initialize(), /Shared register is used with a different value by another instance/);
+      assert.strictEqual(simChip.peekRegister(IOCON), 0x04);
+
+      // The configuration of an instance may be changed by initializing it again.
+      await chipA.close();
+      await chipB.initialize();
+      assert.strictEqual(simChip.peekRegister(IOCON), 0x00);
+    });
+
+    it('should take over the shared IOCON register from an instance for the same pins', async () => {
+      // The previous instances are not closed, e.g. after a reconfiguration of the application.
+      await new MCP23017A(bus.asI2CBus(), 0x20).initialize();
+      await new MCP23017(bus.asI2CBus(), 0x20).initialize();
+      const chip = new MCP23017(bus.asI2CBus(), 0x20, { interruptOpenDrain: false });
+      await chip.initialize();
+      assert.strictEqual(simChip.peekRegister(IOCON), 0x40);
+
+      // Instances for the other port still share the register.
+      const chipA = new MCP23017A(bus.asI2CBus(), 0x20);
+      const chipB = new MCP23017B(bus.asI2CBus(), 0x20, { interruptOpenDrain: false });
+      await chipA.initialize();
+      await assert.rejects(chipB.initialize(), /Shared register is used with a different value by another instance/);
+      assert.strictEqual(simChip.peekRegister(IOCON), 0x04);
+    });
+
+    it('should not share data between different addresses or buses', async () => {
+      const otherBus = new SimulatedI2CBus();
+      otherBus.attach(0x20, new SimulatedMCP23017());
+      bus.attach(0x21, new SimulatedMCP23017());
+      await new MCP23017A(bus.asI2CBus(), 0x20).initialize();
+      await new MCP23017B(bus.asI2CBus(), 0x21, { interruptOpenDrain: false }).initialize();
+      await new MCP23017B(otherBus.asI2CBus(), 0x20, { interruptOpenDrain: false }).initialize();
+    });
+  });
+});
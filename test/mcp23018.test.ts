@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+
+import { MCP23018, MCP23018B } from '../src/mcp23018';
+import { SimulatedI2CBus, SimulatedMCP23018 } from '../src/simulator';
+
+// Register addresses in BANK=0.
+const IOCON = 0x0A;
+
+describe('MCP23018', () => {
+  let bus: SimulatedI2CBus;
+  let simChip: SimulatedMCP23018;
+
+  beforeEach(() => {
+    bus = new SimulatedI2CBus();
+    simChip = bus.attach(0x20, new SimulatedMCP23018());
+  });
+
+  it('should reject an address out of range', () => {
+    assert.throws(() => new MCP23018(bus.asI2CBus(), 0x1F), /Address out of range/);
+    assert.throws(() => new MCP23018B(bus.asI2CBus(), 0x28), /Address out of range/);
+  });
+
+  it('should not configure the unsupported slew rate control', async () => {
+    const chip = new MCP23018(bus.asI2CBus(), 0x20, { sdaSlewRateDisabled: true } as MCP23018.Options);
+    await chip.initialize();
+    assert.strictEqual(simChip.peekRegister(IOCON), 0x44);
+    await chip.close();
+  });
+
+  it('should release an open-drain output set high', async () => {
+    const chip = new MCP23018(bus.asI2CBus(), 0x20);
+    await chip.initialize();
+    await chip.outputPin(4, false, false);
+    assert.strictEqual(simChip.getPinLevel(4), false);
+
+    await chip.setPin(4, true);
+    assert.strictEqual(simChip.getPinLevel(4), true);
+    // The released line may be pulled low by another device.
+    simChip.setInputLevel(4, false);
+    assert.strictEqual(simChip.getPinLevel(4), false);
+    await chip.close();
+  });
+
+  it('should control the pins of port B', async () => {
+    const chip = new MCP23018B(bus.asI2CBus(), 0x20);
+    await chip.initialize();
+    await chip.outputPin(1, false, false);
+    await chip.inputPin(2, false);
+    assert.strictEqual(simChip.getPinLevel(9), false);
+
+    simChip.setInputLevel(10, false);
+    await chip.doPoll();
+    assert.strictEqual(await chip.getPinValue(2), false);
+    await chip.close();
+  });
+});
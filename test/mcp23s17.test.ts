@@ -0,0 +1,144 @@
+import * as assert from 'assert';
+
+import { MCP23017 } from '../src/mcp23017';
+import { MCP23S08 } from '../src/mcp23s08';
+import { MCP23S17 } from '../src/mcp23s17';
+import { SimulatedI2CBus, SimulatedMCP23008, SimulatedMCP23017, SimulatedSpiDevice } from '../src/simulator';
+import { I2CTransport, SpiTransport } from '../src/transports';
+
+// Register addresses in BANK=0.
+const IOCON = 0x0A;
+// IOCON in BANK=1.
+const IOCON_BANK1 = 0x05;
+const MCP23008_IOCON = 0x05;
+
+describe('MCP23S17', () => {
+  let device: SimulatedSpiDevice;
+  let simChip: SimulatedMCP23017;
+
+  beforeEach(() => {
+    device = new SimulatedSpiDevice();
+    simChip = device.attach(0, new SimulatedMCP23017());
+  });
+
+  it('should reject an address out of range', () => {
+    assert.throws(() => new MCP23S17(device, 8), /Address out of range/);
+    assert.throws(() => new MCP23S08(device, 4), /Address out of range/);
+  });
+
+  it('should send the opcode and the register', async () => {
+    const sent: Buffer[] = [];
+    const spy: SpiTransport.Device = {
+      transfer: (message, callback) => {
+        sent.push(Buffer.from(<Buffer>message[0].sendBuffer));
+        assert.strictEqual(message[0].speedHz, 1000000);
+        return device.transfer(message, callback);
+      }
+    };
+    const transport = new SpiTransport(spy, { speedHz: 1000000 });
+    await transport.writeRegister(0, IOCON, Buffer.from([0x20]));
+    assert.deepStrictEqual(await transport.readRegister(0, IOCON, 1), Buffer.from([0x20]));
+    assert.deepStrictEqual(sent, [Buffer.from([0x40, IOCON, 0x20]), Buffer.from([0x41, IOCON, 0x00])]);
+    await assert.rejects(transport.read(), /require a register/);
+  });
+
+  it('should control the pins like a MCP23017', async () => {
+    const chip = new MCP23S17(device, 0);
+    await chip.initialize();
+    // Hardware addressing is enabled for the hardware address 0 as well.
+    assert.strictEqual(simChip.peekRegister(IOCON), 0x4C);
+    await chip.outputPin(9, false, true);
+    assert.strictEqual(simChip.getPinLevel(9), true);
+
+    await chip.inputPin(2, false);
+    simChip.setInputLevel(2, false);
+    await chip.doPoll();
+    assert.strictEqual(await chip.getPinValue(2), false);
+    await chip.close();
+  });
+
+  it('should enable the hardware address to share the chip-select', async () => {
+    const otherChip = device.attach(3, new SimulatedMCP23017());
+    const chip = new MCP23S17(device, 3);
+    await chip.initialize();
+    // Enabling HAEN is sent to hardware address 0, which all ICs without HAEN respond to.
+    // The other configuration of the IC with the hardware address 0 is kept.
+    assert.strictEqual(otherChip.peekRegister(IOCON), 0x4C);
+    assert.strictEqual(simChip.peekRegister(IOCON), 0x08);
+
+    const chip0 = new MCP23S17(device, 0);
+    await chip0.initialize();
+    await chip0.outputPin(1, false, true);
+    await chip.outputPin(1, false, false);
+    assert.strictEqual(simChip.getPinLevel(1), true);
+    assert.strictEqual(otherChip.getPinLevel(1), false);
+    await chip0.close();
+    await chip.close();
+  });
+
+  for (const [options, register, value] of [[{ interruptActiveHigh: true }, IOCON, 0x4A], [{ interruptMirror: false }, IOCON_BANK1, 0x8C]] as const) {
+    it(`should keep the configuration of the IC with the hardware address 0 (${JSON.stringify(options)})`, async () => {
+      const otherChip = device.attach(3, new SimulatedMCP23017());
+      const chip0 = new MCP23S17(device, 0, options);
+      await chip0.initialize();
+      assert.strictEqual(simChip.peekRegister(register), value);
+
+      const chip = new MCP23S17(device, 3);
+      await chip.initialize();
+      assert.strictEqual(simChip.peekRegister(register), value);
+      assert.strictEqual(otherChip.peekRegister(IOCON), 0x4C);
+
+      await chip0.outputPin(9, false, true);
+      await chip.outputPin(9, false, false);
+      assert.strictEqual(simChip.getPinLevel(9), true);
+      assert.strictEqual(otherChip.getPinLevel(9), false);
+      await chip0.close();
+      await chip.close();
+    });
+  }
+
+  it('should find IOCON of the IC with the hardware address 0 in BANK=1', async () => {
+    const otherChip = device.attach(3, new SimulatedMCP23017());
+    // Both ICs respond to the hardware address 0 and switch to BANK=1, where the BANK=0 address of IOCON is OLATA.
+    await new SpiTransport(device).writeRegister(0, IOCON, Buffer.from([0x80]));
+    const chip = new MCP23S17(device, 3);
+    await chip.initialize();
+    assert.strictEqual(simChip.peekRegister(IOCON_BANK1), 0x88);
+    assert.strictEqual(simChip.peekRegister(IOCON), 0x00);
+    assert.strictEqual(otherChip.peekRegister(IOCON), 0x4C);
+
+    await chip.outputPin(3, false, false);
+    assert.strictEqual(otherChip.getPinLevel(3), false);
+    assert.strictEqual(simChip.getPinLevel(3), false);
+    await chip.close();
+  });
+
+  it('should reject a failed transfer', async () => {
+    const chip = new MCP23S17(device, 0);
+    await chip.initialize();
+    device.failNextTransfer();
+    await assert.rejects(chip.outputPin(1, false, true), /Input\/output error/);
+    await chip.close();
+  });
+
+  it('should share the logic with the MCP23S08', async () => {
+    const device8 = new SimulatedSpiDevice();
+    const simChip8 = device8.attach(2, new SimulatedMCP23008());
+    const chip = new MCP23S08(device8, 2);
+    await chip.initialize();
+    assert.strictEqual(simChip8.peekRegister(MCP23008_IOCON), 0x0C);
+    await chip.outputPin(7, false, false);
+    assert.strictEqual(simChip8.getPinLevel(7), false);
+    await chip.close();
+  });
+
+  it('should accept a transport for the I2C variant', async () => {
+    const bus = new SimulatedI2CBus();
+    const i2cChip = bus.attach(0x20, new SimulatedMCP23017());
+    const chip = new MCP23017(new I2CTransport(bus.asI2CBus()), 0x20);
+    await chip.initialize();
+    await chip.outputPin(0, false, false);
+    assert.strictEqual(i2cChip.getPinLevel(0), false);
+    await chip.close();
+  });
+});
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { once } from 'events';
+
+import { EventInterruptSource } from '../src/interrupt-sources';
+import { PCA9554 } from '../src/pca9554';
+import { SimulatedI2CBus, SimulatedPCA9554 } from '../src/simulator';
+
+// Register addresses.
+const OUTPUT = 0x01;
+const POLARITY = 0x02;
+const CONFIG = 0x03;
+
+describe('PCA9554', () => {
+  let bus: SimulatedI2CBus;
+  let simChip: SimulatedPCA9554;
+  let chip: PCA9554;
+
+  beforeEach(() => {
+    bus = new SimulatedI2CBus();
+    simChip = bus.attach(0x38, new SimulatedPCA9554());
+    chip = new PCA9554(bus.asI2CBus(), 0x38);
+  });
+
+  afterEach(async () => {
+    await chip.close();
+  });
+
+  it('should accept the addresses of the PCA9554 and PCA9554A', () => {
+    assert.throws(() => new PCA9554(bus.asI2CBus(), 0x1F), /Address out of range/);
+    assert.throws(() => new PCA9554(bus.asI2CBus(), 0x28), /Address out of range/);
+    assert.throws(() => new PCA9554(bus.asI2CBus(), 0x40), /Address out of range/);
+    assert.doesNotThrow(() => new PCA9554(bus.asI2CBus(), 0x20));
+  });
+
+  it('should initialize the registers', async () => {
+    await chip.initialize(0b10100101);
+    assert.strictEqual(simChip.peekRegister(OUTPUT), 0b10100101);
+    assert.strictEqual(simChip.peekRegister(POLARITY), 0x00);
+    assert.strictEqual(simChip.peekRegister(CONFIG), 0xFF);
+  });
+
+  it('should control outputs and read inputs', async () => {
+    await chip.initialize(true);
+    await chip.outputPin(1, false, false);
+    await chip.inputPin(6, true);
+    assert.strictEqual(simChip.peekRegister(CONFIG), 0b11111101);
+    assert.strictEqual(simChip.getPinLevel(1), false);
+
+    simChip.setInputLevel(6, false);
+    await chip.doPoll();
+    assert.strictEqual(await chip.getPinValue(6), true);
+  });
+
+  it('should detect changes by the interrupt', async () => {
+    await chip.initialize(true);
+    await chip.inputPin(3, false);
+    const source = new EventInterruptSource(simChip);
+    await chip.enableInterrupt(source);
+
+    const input = once(chip, 'input');
+    simChip.setInputLevel(3, false);
+    const [data] = await input;
+    assert.strictEqual(data.pin, 3);
+    assert.strictEqual(data.value, false);
+    assert.strictEqual(simChip.isInterruptActive(), false);
+  });
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+
+import { PCA9535, PCA9555, TCA9555 } from '../src/pca9555';
+import { SimulatedCAT9555, SimulatedI2CBus } from '../src/simulator';
+import { I2CTransport } from '../src/transports';
+
+describe('PCA9555 family', () => {
+  let bus: SimulatedI2CBus;
+  let simChip: SimulatedCAT9555;
+
+  beforeEach(() => {
+    bus = new SimulatedI2CBus();
+    // The ICs are register compatible with the CAT9555.
+    simChip = bus.attach(0x27, new SimulatedCAT9555());
+  });
+
+  for (const Chip of [PCA9555, TCA9555, PCA9535]) {
+    describe(Chip.name, () => {
+      it('should reject an address out of range', () => {
+        assert.throws(() => new Chip(bus.asI2CBus(), 0x1F), /Address out of range/);
+        assert.throws(() => new Chip(bus.asI2CBus(), 0x28), /Address out of range/);
+      });
+
+      it('should control the pins', async () => {
+        const chip = new Chip(bus.asI2CBus(), 0x27);
+        await chip.initialize(false);
+        await chip.outputPin(9, false, true);
+        await chip.inputPin(2, false);
+        assert.strictEqual(simChip.getPinLevel(9), true);
+
+        simChip.setInputLevel(2, false);
+        await chip.doPoll();
+        assert.strictEqual(await chip.getPinValue(2), false);
+        await chip.close();
+      });
+
+      it('should accept a transport', async () => {
+        const chip = new Chip(new I2CTransport(bus.asI2CBus()), 0x27);
+        await chip.initialize(false);
+        await chip.outputPin(9, false, true);
+        assert.strictEqual(simChip.getPinLevel(9), true);
+        await chip.close();
+      });
+    });
+  }
+});
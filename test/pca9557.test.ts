@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+
+import { PCA9557 } from '../src/pca9557';
+import { SimulatedI2CBus, SimulatedPCA9557 } from '../src/simulator';
+
+// Register addresses.
+const POLARITY = 0x02;
+
+describe('PCA9557', () => {
+  let bus: SimulatedI2CBus;
+  let simChip: SimulatedPCA9557;
+  let chip: PCA9557;
+
+  beforeEach(() => {
+    bus = new SimulatedI2CBus();
+    simChip = bus.attach(0x18, new SimulatedPCA9557());
+    chip = new PCA9557(bus.asI2CBus(), 0x18);
+  });
+
+  afterEach(async () => {
+    await chip.close();
+  });
+
+  it('should reject an address out of range', () => {
+    assert.throws(() => new PCA9557(bus.asI2CBus(), 0x17), /Address out of range/);
+    assert.throws(() => new PCA9557(bus.asI2CBus(), 0x20), /Address out of range/);
+  });
+
+  it('should reset the polarity inversion of pins 4 to 7', async () => {
+    assert.strictEqual(simChip.peekRegister(POLARITY), 0xF0);
+    await chip.initialize(true);
+    assert.strictEqual(simChip.peekRegister(POLARITY), 0x00);
+
+    await chip.inputPin(5, false);
+    simChip.setInputLevel(5, false);
+    await chip.doPoll();
+    assert.strictEqual(await chip.getPinValue(5), false);
+  });
+
+  it('should release the open-drain pin 0 when set high', async () => {
+    await chip.initialize(true);
+    await chip.outputPin(0, false, false);
+    assert.strictEqual(simChip.getPinLevel(0), false);
+
+    await chip.setPin(0, true);
+    assert.strictEqual(simChip.getPinLevel(0), true);
+    // The released line may be pulled low by another device.
+    simChip.setInputLevel(0, false);
+    assert.strictEqual(simChip.getPinLevel(0), false);
+  });
+});
@@ -0,0 +1,155 @@
+import * as assert from 'assert';
+import { once } from 'events';
+
+import { EventInterruptSource } from '../src/interrupt-sources';
+import { PCAL6416A, PCAL9555A } from '../src/pcal9555a';
+import { SimulatedI2CBus, SimulatedPCAL9555A } from '../src/simulator';
+
+// Register addresses.
+const INPUT_LATCH_0 = 0x44;
+const PULL_ENABLE_0 = 0x46;
+const PULL_SELECT_0 = 0x48;
+const INT_MASK_0 = 0x4A;
+const INT_MASK_1 = 0x4B;
+const INT_STATUS_0 = 0x4C;
+
+describe('PCAL9555A', () => {
+  let bus: SimulatedI2CBus;
+  let simChip: SimulatedPCAL9555A;
+  let chip: PCAL9555A;
+
+  const settle = async (): Promise<void> => {
+    for (let i = 0; i < 20; i++) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  };
+
+  beforeEach(() => {
+    bus = new SimulatedI2CBus();
+    simChip = bus.attach(0x20, new SimulatedPCAL9555A());
+    chip = new PCAL9555A(bus.asI2CBus(), 0x20);
+  });
+
+  afterEach(async () => {
+    await chip.close();
+  });
+
+  it('should reject an address out of range', () => {
+    assert.throws(() => new PCAL9555A(bus.asI2CBus(), 0x28), /Address out of range/);
+    assert.throws(() => new PCAL6416A(bus.asI2CBus(), 0x22), /Address out of range/);
+    assert.doesNotThrow(() => new PCAL6416A(bus.asI2CBus(), 0x21));
+  });
+
+  it('should initialize the agile I/O registers', async () => {
+    await chip.initialize(true);
+    assert.strictEqual(simChip.peekRegister(INT_MASK_0), 0xFF);
+    assert.strictEqual(simChip.peekRegister(INT_MASK_1), 0xFF);
+    assert.strictEqual(simChip.peekRegister(INPUT_LATCH_0), 0x00);
+    assert.strictEqual(simChip.peekRegister(PULL_ENABLE_0), 0xFF);
+    assert.strictEqual(simChip.peekRegister(PULL_SELECT_0), 0xFF);
+  });
+
+  it('should select the pull-up or pull-down resistor of an input', async () => {
+    await chip.initialize(true);
+    await chip.inputPin(3, false, { pullDown: true });
+    assert.strictEqual(simChip.peekRegister(PULL_ENABLE_0), 0xFF);
+    assert.strictEqual(simChip.peekRegister(PULL_SELECT_0), 0b11110111);
+    assert.strictEqual(await chip.getPinValue(3), false);
+
+    await chip.setPullUp(3, true);
+    assert.strictEqual(simChip.peekRegister(PULL_SELECT_0), 0xFF);
+    await chip.doPoll();
+    assert.strictEqual(await chip.getPinValue(3), true);
+
+    await chip.inputPin(3, false, { pullUp: false });
+    assert.strictEqual(simChip.peekRegister(PULL_ENABLE_0), 0b11110111);
+  });
+
+  it('should not lose concurrent pull-down and input latch changes', async () => {
+    await chip.initialize(true);
+    await Promise.all([chip.setPullDown(0, true), chip.setPullDown(1, true), chip.setPullUp(2, false)]);
+    assert.strictEqual(simChip.peekRegister(PULL_SELECT_0), 0b11111000);
+    assert.strictEqual(simChip.peekRegister(PULL_ENABLE_0), 0b11111011);
+
+    await Promise.all([chip.setInputLatch(4, true), chip.setInputLatch(5, true)]);
+    assert.strictEqual(simChip.peekRegister(INPUT_LATCH_0), 0b00110000);
+  });
+
+  it('should reject enabling the pull-up and pull-down resistor together', async () => {
+    await chip.initialize(true);
+    await assert.rejects(chip.inputPin(3, false, { pullUp: true, pullDown: true }), /can not be enabled together/);
+    await assert.rejects(chip.setPullDown(<PCAL9555A.PinNumber>16, true), /Pin out of range/);
+  });
+
+  it('should not change the resistors or the latch if the input options are invalid', async () => {
+    await chip.initialize(true);
+    await assert.rejects(chip.inputPin(3, false, { pullDown: true, latch: true, debounceMs: -1 }), /Debounce time out of range/);
+    await assert.rejects(chip.inputPin(<PCAL9555A.PinNumber>16, false, { pullDown: true }), /Pin out of range/);
+    assert.strictEqual(simChip.peekRegister(PULL_ENABLE_0), 0xFF);
+    assert.strictEqual(simChip.peekRegister(PULL_SELECT_0), 0xFF);
+    assert.strictEqual(simChip.peekRegister(INPUT_LATCH_0), 0x00);
+  });
+
+  it('should unmask the interrupts of the input pins', async () => {
+    await chip.initialize(true);
+    await chip.outputPin(2, false, true);
+    await chip.outputPin(9, false, true);
+    await chip.inputPin(10, false);
+    await chip.enableInterrupt(new EventInterruptSource(simChip));
+    assert.strictEqual(simChip.peekRegister(INT_MASK_0), 0b00000100);
+    assert.strictEqual(simChip.peekRegister(INT_MASK_1), 0b00000010);
+
+    const input = once(chip, 'input');
+    simChip.setInputLevel(10, false);
+    const [data] = await input;
+    assert.strictEqual(data.pin, 10);
+    assert.strictEqual(data.value, false);
+    assert.strictEqual(simChip.isInterruptActive(), false);
+
+    await chip.disableInterrupt();
+    assert.strictEqual(simChip.peekRegister(INT_MASK_1), 0xFF);
+  });
+
+  it('should not lose a change after the interrupt status was read', async () => {
+    await chip.initialize(true);
+    await chip.inputPin(2, false);
+    await chip.inputPin(3, false);
+    await chip.enableInterrupt(new EventInterruptSource(simChip));
+
+    // Change pin 3 between the reads of the interrupt status and the input registers.
+    const readI2cBlock = bus.readI2cBlock;
+    bus.readI2cBlock = (address, command, length, buffer, callback): void => {
+      readI2cBlock.call(bus, address, command, length, buffer, (err: Error, bytesRead: number, data: Buffer) => {
+        if (command === INT_STATUS_0) {
+          simChip.setInputLevel(3, false);
+        }
+        callback(err, bytesRead, data);
+      });
+    };
+
+    const values: Array<[number, boolean]> = [];
+    chip.on('input', (data) => values.push([data.pin, data.value]));
+    simChip.setInputLevel(2, false);
+    await settle();
+    assert.deepStrictEqual(values, [[2, false], [3, false]]);
+    assert.strictEqual(simChip.isInterruptActive(), false);
+  });
+
+  it('should not lose a short pulse on a latched input', async () => {
+    await chip.initialize(true);
+    await chip.inputPin(6, false, { latch: true });
+    await chip.inputPin(7, false);
+    assert.strictEqual(simChip.peekRegister(INPUT_LATCH_0), 0b01000000);
+    await chip.enableInterrupt(new EventInterruptSource(simChip));
+
+    const values: Array<[number, boolean]> = [];
+    chip.on('input', (data) => values.push([data.pin, data.value]));
+
+    // Both pulses are over before the IC is read.
+    simChip.setInputLevels(0x00, 0b11000000);
+    simChip.setInputLevels(0xFF, 0b11000000);
+    await settle();
+    assert.deepStrictEqual(values, [[6, false], [6, true]]);
+    assert.strictEqual(simChip.isInterruptActive(), false);
+  });
+});
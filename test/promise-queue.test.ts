@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+
+import { PromiseQueue } from '../src/promise-queue';
+
+const sleepMs = (ms: number): Promise<void> => new Promise((resolve) => { setTimeout(resolve, ms); });
+
+describe('PromiseQueue', () => {
+
+  it('should run the queued promises one after another in order', async () => {
+    const queue = new PromiseQueue();
+    const log: string[] = [];
+
+    const task = (name: string, ms: number) => async (): Promise<string> => {
+      log.push(`start ${name}`);
+      await sleepMs(ms);
+      log.push(`end ${name}`);
+      return name;
+    };
+
+    const results = await Promise.all([
+      queue.enqueue(task('a', 20)),
+      queue.enqueue(task('b', 0)),
+      queue.enqueue(task('c', 10))
+    ]);
+
+    assert.deepStrictEqual(results, ['a', 'b', 'c']);
+    assert.deepStrictEqual(log, ['start a', 'end a', 'start b', 'end b', 'start c', 'end c']);
+  });
+
+  it('should continue with the next promise after a rejection', async () => {
+    const queue = new PromiseQueue();
+
+    const failing = queue.enqueue(() => Promise.reject(new Error('failed')));
+    const throwing = queue.enqueue(() => { throw new Error('thrown'); });
+    const succeeding = queue.enqueue(() => Promise.resolve(42));
+
+    await assert.rejects(failing, /failed/);
+    await assert.rejects(throwing, /thrown/);
+    assert.strictEqual(await succeeding, 42);
+  });
+
+  it('should reject instantly if the maximum queue length is exceeded', async () => {
+    const queue = new PromiseQueue(2);
+
+    // The first promise is started immediately and does not count against the queue length.
+    const running = queue.enqueue(() => sleepMs(10));
+    const queued1 = queue.enqueue(() => Promise.resolve());
+    const queued2 = queue.enqueue(() => Promise.resolve());
+
+    await assert.rejects(queue.enqueue(() => Promise.resolve()), (err) => err === 'Maximum queue length exceeded');
+
+    await Promise.all([running, queued1, queued2]);
+
+    // Once the queue is drained, new promises are accepted again.
+    await queue.enqueue(() => Promise.resolve());
+  });
+
+  it('should report if it is empty', async () => {
+    const queue = new PromiseQueue();
+    assert.strictEqual(queue.isEmpty(), true);
+
+    const running = queue.enqueue(() => sleepMs(10));
+    assert.strictEqual(queue.isEmpty(), false);
+
+    await running;
+    // The queue releases the working flag after the promise of the caller got resolved.
+    await sleepMs(0);
+    assert.strictEqual(queue.isEmpty(), true);
+  });
+});
@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+
+import { SimulatedI2CBus, SimulatedPCA9554 } from '../src/simulator';
+import { TCA6408 } from '../src/tca6408';
+
+describe('TCA6408', () => {
+  let bus: SimulatedI2CBus;
+  let simChip: SimulatedPCA9554;
+
+  beforeEach(() => {
+    bus = new SimulatedI2CBus();
+    // The TCA6408 has the same registers as the PCA9554.
+    simChip = bus.attach(0x21, new SimulatedPCA9554());
+  });
+
+  it('should reject an address out of range', () => {
+    assert.throws(() => new TCA6408(bus.asI2CBus(), 0x1F), /Address out of range/);
+    assert.throws(() => new TCA6408(bus.asI2CBus(), 0x22), /Address out of range/);
+  });
+
+  it('should control the pins', async () => {
+    const chip = new TCA6408(bus.asI2CBus(), 0x21);
+    await chip.initialize(false);
+    await chip.outputPin(7, false, true);
+    await chip.inputPin(0, false);
+    assert.strictEqual(simChip.getPinLevel(7), true);
+
+    simChip.setInputLevel(0, false);
+    await chip.doPoll();
+    assert.strictEqual(await chip.getPinValue(0), false);
+    await chip.close();
+  });
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+
+import { CAT9555 } from '../src/cat9555';
+import { SimulatedCAT9555, SimulatedI2CBus } from '../src/simulator';
+import { TCA6416 } from '../src/tca6416';
+
+describe('TCA6416', () => {
+  let bus: SimulatedI2CBus;
+  let simChip: SimulatedCAT9555;
+
+  beforeEach(() => {
+    bus = new SimulatedI2CBus();
+    // The TCA6416 has the same registers as the CAT9555.
+    simChip = bus.attach(0x20, new SimulatedCAT9555());
+  });
+
+  it('should reject an address out of range', () => {
+    assert.throws(() => new TCA6416(bus.asI2CBus(), 0x1F), /Address out of range/);
+    assert.throws(() => new TCA6416(bus.asI2CBus(), 0x22), /Address out of range/);
+  });
+
+  it('should be a CAT9555', () => {
+    assert.ok(new TCA6416(bus.asI2CBus(), 0x20) instanceof CAT9555);
+  });
+
+  it('should control the pins', async () => {
+    const chip = new TCA6416(bus.asI2CBus(), 0x20);
+    await chip.initialize(false);
+    await chip.outputPin(15, false, true);
+    await chip.inputPin(8, false);
+    assert.strictEqual(simChip.getPinLevel(15), true);
+
+    simChip.setInputLevel(8, false);
+    await chip.doPoll();
+    assert.strictEqual(await chip.getPinValue(8), false);
+    await chip.close();
+  });
+});